@@ -0,0 +1,64 @@
+import { bench, describe } from "vitest";
+
+import { compile, z } from "../src";
+
+const event = z.object({
+  id: z.string({ minLength: 1 }),
+  type: z.enums({ Click: "click", View: "view", Purchase: "purchase" }),
+  timestamp: z.number({ int: true, positive: true }),
+  user: z.object({
+    name: z.string(),
+    email: z.maybe(z.string()),
+    age: z.optional(z.number({ int: true, min: 0 })),
+  }),
+  tags: z.array(z.string()),
+  location: z.tuple([z.number(), z.number()]),
+  properties: z.record(z.string(), z.union([z.string(), z.number()])),
+});
+
+const valid = {
+  id: "evt_1",
+  type: "purchase",
+  timestamp: 1700000000000,
+  user: { name: "Ada", email: null, age: 36 },
+  tags: ["a", "b", "c"],
+  location: [40.4, -3.7],
+  properties: { sku: "A-1", price: 25, currency: "EUR" },
+};
+
+const invalid = { ...valid, tags: ["a", 1], location: [40.4] };
+
+const compiled = compile(event);
+
+describe("valid event", () => {
+  bench("interpreted", () => {
+    event(valid);
+  });
+  bench("compiled", () => {
+    compiled(valid);
+  });
+});
+
+describe("invalid event", () => {
+  bench("interpreted", () => {
+    event(invalid, { abortEarly: false });
+  });
+  bench("compiled", () => {
+    compiled(invalid, { abortEarly: false });
+  });
+});
+
+const batch = Array.from({ length: 1000 }, (_, i) => ({
+  ...valid,
+  id: `evt_${i}`,
+  timestamp: valid.timestamp + i,
+}));
+
+describe("batch of 1000 valid events", () => {
+  bench("interpreted", () => {
+    for (const e of batch) event(e);
+  });
+  bench("compiled", () => {
+    for (const e of batch) compiled(e);
+  });
+});
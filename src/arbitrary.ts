@@ -0,0 +1,857 @@
+import type { Constraint, Descriptor } from "./descriptor";
+import { describe } from "./descriptor";
+import { isArray, isNil, isPlainObject } from "./guards";
+import type { Parser } from "./parsing";
+import type { Result } from "./result";
+import { Err, Ok } from "./result";
+import type { PlainObject } from "./types";
+
+/**
+ * Options for `generate` and `sample`.
+ * @property {number} [seed] - The seed of the random number generator. The same seed gives the same values. Default: a random seed.
+ * @property {number} [size=10] - The largest length of generated strings, arrays, records, maps and sets that have no length constraints.
+ * Nested collections are given half the size of their parent, so recursive parsers stay small.
+ * @property {number} [maxAttempts=100] - How many values are generated for a parser before giving up,
+ * when the generated values are rejected by refinements, transforms or constraints that cannot be generated directly.
+ */
+export type GenerateOptions = {
+  seed?: number;
+  size?: number;
+  maxAttempts?: number;
+};
+
+/**
+ * Options for `shrink`.
+ * @property {number} [maxSteps=1000] - The largest number of times a smaller value replaces the current one.
+ */
+export type ShrinkOptions = {
+  maxSteps?: number;
+};
+
+/**
+ * Options for `check`.
+ * @property {number} [runs=100] - How many values are generated and checked.
+ * @property {boolean} [shrink=true] - Whether a failing value is shrunk to a minimal one before it is reported.
+ */
+export type CheckOptions = GenerateOptions &
+  ShrinkOptions & {
+    runs?: number;
+    shrink?: boolean;
+  };
+
+/**
+ * A value for which a property does not hold, as returned by `check`.
+ * @property {unknown} value - The input value, after shrinking.
+ * @property {unknown} original - The input value that was generated, before shrinking.
+ * @property {unknown} [error] - The error thrown by the property, if it threw.
+ * @property {number} seed - The seed of the run, to generate the original value again with `generate`.
+ * @property {number} run - The index of the run that failed.
+ */
+export type Counterexample = {
+  value: unknown;
+  original: unknown;
+  error?: unknown;
+  seed: number;
+  run: number;
+};
+
+/**
+ * The GenerateError type is thrown by `generate` and `sample` when a parser cannot be generated,
+ * such as a custom parser, or a refinement that rejects every value that was tried.
+ * @property {string[]} path - The location of the parser that could not be generated.
+ */
+export class GenerateError extends Error {
+  constructor(message: string, public readonly path: string[]) {
+    super(path.length > 0 ? `${message} at '${path.join(".")}'` : message);
+  }
+}
+
+type Random = () => number;
+
+type Context = {
+  random: Random;
+  maxAttempts: number;
+};
+
+const DEFAULT_SIZE = 10;
+const MAX_DEPTH = 5;
+const LOWER = "abcdefghijklmnopqrstuvwxyz";
+const DIGITS = "0123456789";
+const HEX = "0123456789abcdef";
+const ALPHANUMERIC = `${LOWER}${LOWER.toUpperCase()}${DIGITS}`;
+const PRINTABLE = Array.from({ length: 95 }, (_, i) =>
+  String.fromCharCode(32 + i),
+).join("");
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/**
+ * Returns a random number generator with the Mulberry32 algorithm, which returns numbers in `[0, 1)`.
+ */
+const mulberry32 = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+const int = (random: Random, min: number, max: number): number =>
+  Math.floor(random() * (max - min + 1)) + min;
+
+const pick = <T>(random: Random, items: ArrayLike<T>): T =>
+  items[Math.floor(random() * items.length)];
+
+const chars = (random: Random, alphabet: string, length: number): string =>
+  Array.from({ length }, () => pick(random, alphabet)).join("");
+
+const constraint = (
+  constraints: Constraint[],
+  name: string,
+): unknown | undefined =>
+  constraints.find((c) => c.name === name)?.params.value;
+
+const accepts = (parser: Parser, value: unknown): boolean =>
+  parser(value).isOk();
+
+/**
+ * A regular expression, parsed into the parts needed to generate strings that it matches.
+ */
+type RegexNode =
+  | { type: "chars"; chars: string }
+  | { type: "seq"; items: RegexNode[] }
+  | { type: "alt"; options: RegexNode[] }
+  | { type: "repeat"; node: RegexNode; min: number; max: number };
+
+const complement = (set: string): string =>
+  Array.from(PRINTABLE)
+    .filter((c) => !set.includes(c))
+    .join("");
+
+const CLASS_ESCAPES: { [key: string]: string } = {
+  d: DIGITS,
+  w: `${ALPHANUMERIC}_`,
+  s: " ",
+  D: complement(DIGITS),
+  W: complement(`${ALPHANUMERIC}_`),
+  S: complement(" "),
+};
+
+const CHAR_ESCAPES: { [key: string]: string } = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  f: "\f",
+  v: "\v",
+  0: "\0",
+};
+
+/**
+ * Parses the source of a regular expression. Lookarounds, backreferences and word boundaries are not supported.
+ *
+ * @param source - The source of the regular expression.
+ * @param size - The number of repetitions of unbounded quantifiers.
+ * @returns The parsed expression, or `undefined` if it uses syntax that is not supported.
+ */
+const parseRegex = (source: string, size: number): RegexNode | undefined => {
+  let i = 0;
+  const escape = (): string | undefined => {
+    const c = source[i++];
+    if (c === undefined || /[1-9bBk]/.test(c)) return undefined;
+    if (c === "u" || c === "x") {
+      const length = c === "u" ? 4 : 2;
+      const hex = source.slice(i, i + length);
+      if (!/^[0-9a-f]+$/i.test(hex) || hex.length !== length) return undefined;
+      i += length;
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+    return CLASS_ESCAPES[c] ?? CHAR_ESCAPES[c] ?? c;
+  };
+  const charClass = (): string | undefined => {
+    const negated = source[i] === "^";
+    if (negated) i++;
+    let set = "";
+    while (i < source.length && source[i] !== "]") {
+      let from: string | undefined = source[i++];
+      if (from === "\\") from = escape();
+      if (from === undefined) return undefined;
+      if (source[i] === "-" && source[i + 1] !== "]" && from.length === 1) {
+        i++;
+        let to: string | undefined = source[i++];
+        if (to === "\\") to = escape();
+        if (to === undefined || to.length !== 1) return undefined;
+        for (let c = from.charCodeAt(0); c <= to.charCodeAt(0); c++) {
+          set += String.fromCharCode(c);
+        }
+      } else {
+        set += from;
+      }
+    }
+    if (source[i++] !== "]") return undefined;
+    return negated ? complement(set) : set;
+  };
+  const quantifier = (): [number, number] | undefined => {
+    const c = source[i];
+    const simple: { [key: string]: [number, number] } = {
+      "*": [0, size],
+      "+": [1, size + 1],
+      "?": [0, 1],
+    };
+    if (c in simple) {
+      i++;
+      return simple[c];
+    }
+    if (c !== "{") return undefined;
+    const m = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i));
+    if (!m) return undefined;
+    i += m[0].length;
+    const min = Number(m[1]);
+    if (m[2] === undefined) return [min, min];
+    return [min, m[3] === "" ? min + size : Number(m[3])];
+  };
+  const alternation = (): RegexNode | undefined => {
+    const options: RegexNode[] = [];
+    let items: RegexNode[] = [];
+    while (i < source.length && source[i] !== ")") {
+      const c = source[i++];
+      let atom: RegexNode | undefined;
+      if (c === "|") {
+        options.push({ type: "seq", items });
+        items = [];
+        continue;
+      } else if (c === "^" || c === "$") {
+        continue;
+      } else if (c === "(") {
+        if (source[i] === "?") {
+          if (source[i + 1] === ":") i += 2;
+          else if (source[i + 1] === "<" && /[a-z_$]/i.test(source[i + 2])) {
+            i = source.indexOf(">", i) + 1;
+          } else return undefined;
+        }
+        atom = alternation();
+        if (source[i++] !== ")") return undefined;
+      } else if (c === "[") {
+        const set = charClass();
+        atom = set === undefined ? undefined : { type: "chars", chars: set };
+      } else if (c === "\\") {
+        const set = escape();
+        atom = set === undefined ? undefined : { type: "chars", chars: set };
+      } else if (c === ".") {
+        atom = { type: "chars", chars: PRINTABLE };
+      } else if ("*+?{".includes(c)) {
+        return undefined;
+      } else {
+        atom = { type: "chars", chars: c };
+      }
+      if (atom === undefined) return undefined;
+      const q = quantifier();
+      if (q && source[i] === "?") i++;
+      items.push(
+        q ? { type: "repeat", node: atom, min: q[0], max: q[1] } : atom,
+      );
+    }
+    options.push({ type: "seq", items });
+    return options.length === 1 ? options[0] : { type: "alt", options };
+  };
+  const node = alternation();
+  return i === source.length ? node : undefined;
+};
+
+const fromRegex = (random: Random, node: RegexNode): string => {
+  switch (node.type) {
+    case "chars":
+      return node.chars.length > 0 ? pick(random, node.chars) : "";
+    case "seq":
+      return node.items.map((item) => fromRegex(random, item)).join("");
+    case "alt":
+      return fromRegex(random, pick(random, node.options));
+    case "repeat":
+      return Array.from({ length: int(random, node.min, node.max) }, () =>
+        fromRegex(random, node.node),
+      ).join("");
+  }
+};
+
+const pad = (n: number, length = 2): string =>
+  n.toString().padStart(length, "0");
+
+const isoDate = (random: Random): string =>
+  `${int(random, 1970, 2099)}-${pad(int(random, 1, 12))}-${pad(
+    int(random, 1, 28),
+  )}`;
+
+const isoTime = (random: Random): string =>
+  `${pad(int(random, 0, 23))}:${pad(int(random, 0, 59))}:${pad(
+    int(random, 0, 59),
+  )}`;
+
+const ipv4 = (random: Random): string =>
+  Array.from({ length: 4 }, () => int(random, 0, 255)).join(".");
+
+const ipv6 = (random: Random): string =>
+  Array.from({ length: 8 }, () => chars(random, HEX, int(random, 1, 4))).join(
+    ":",
+  );
+
+const label = (random: Random): string =>
+  chars(random, LOWER, int(random, 3, 8));
+
+/**
+ * Generates a string in a format.
+ */
+const fromFormat = (
+  random: Random,
+  desc: Extract<Descriptor, { kind: "string" }>,
+): string => {
+  const version = desc.versions ? pick(random, desc.versions) : undefined;
+  switch (desc.format) {
+    case "email":
+      return `${label(random)}@${label(random)}.${pick(random, [
+        "com",
+        "org",
+        "net",
+        "io",
+      ])}`;
+    case "uuid": {
+      const hex = chars(random, HEX, 32).split("");
+      hex[12] = (version ?? 4).toString();
+      hex[16] = pick(random, "89ab");
+      const s = hex.join("");
+      return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(
+        16,
+        20,
+      )}-${s.slice(20)}`;
+    }
+    case "url":
+      return `https://${label(random)}.com/${label(random)}`;
+    case "hostname":
+      return `${label(random)}.${label(random)}.com`;
+    case "ip":
+      return (version ?? pick(random, [4, 6])) === 4
+        ? ipv4(random)
+        : ipv6(random);
+    case "cidr":
+      return (version ?? pick(random, [4, 6])) === 4
+        ? `${ipv4(random)}/${int(random, 0, 32)}`
+        : `${ipv6(random)}/${int(random, 0, 128)}`;
+    case "date":
+      return isoDate(random);
+    case "time":
+      return isoTime(random);
+    case "date-time":
+      return `${isoDate(random)}T${isoTime(random)}Z`;
+    case "duration":
+      return random() < 0.5
+        ? `P${int(random, 1, 30)}D`
+        : `PT${int(random, 1, 23)}H${int(random, 1, 59)}M`;
+    case "ulid":
+      return `${int(random, 0, 7)}${chars(random, CROCKFORD, 25)}`;
+    case "semver":
+      return `${int(random, 0, 20)}.${int(random, 0, 20)}.${int(
+        random,
+        0,
+        20,
+      )}`;
+    case "hex-color":
+      return `#${chars(random, HEX, 6)}`;
+    case "base64":
+      return btoa(
+        String.fromCharCode(
+          ...Array.from({ length: 3 * int(random, 1, 8) }, () =>
+            int(random, 0, 255),
+          ),
+        ),
+      );
+    case "e164":
+      return `+${int(random, 1, 9)}${chars(
+        random,
+        DIGITS,
+        int(random, 7, 13),
+      )}`;
+    default:
+      return "";
+  }
+};
+
+/**
+ * Generates a number within the constraints of a number parser. The bounds and zero are picked more often than
+ * other numbers, as they are where bugs are usually found.
+ */
+const fromNumber = (random: Random, constraints: Constraint[]): number => {
+  const min = constraint(constraints, "min") as number | undefined;
+  const max = constraint(constraints, "max") as number | undefined;
+  const step = constraint(constraints, "multipleOf") as number | undefined;
+  const isInt = constraints.some((c) => c.name === "int");
+  const positive = constraints.some((c) => c.name === "positive");
+  let lo = min ?? (max !== undefined ? Math.min(max, 0) - 1000 : -1000);
+  if (positive) lo = Math.max(lo, 0);
+  const hi = max ?? Math.max(lo, 0) + 1000;
+  const edges = [lo, hi, 0, positive ? 1 : -1].filter(
+    (n) => n >= lo && n <= hi,
+  );
+  if (step !== undefined) {
+    const k = int(random, Math.ceil(lo / step), Math.floor(hi / step));
+    // Rounds away the floating-point error of the product, so that `3 * 0.1` gives `0.3`.
+    return Number((k * step).toPrecision(15));
+  }
+  if (random() < 0.2) return pick(random, edges);
+  return isInt
+    ? int(random, Math.ceil(lo), Math.floor(hi))
+    : lo + random() * (hi - lo);
+};
+
+/**
+ * Generates an input value for a parser from its descriptor, without checking it.
+ */
+const arbitrary = (
+  parser: Parser,
+  ctx: Context,
+  size: number,
+  depth: number,
+  path: string[],
+): unknown => {
+  const { random } = ctx;
+  const desc = describe(parser);
+  const length = (constraints: Constraint[] = []): number => {
+    const min = (constraint(constraints, "minItems") ??
+      constraint(constraints, "minLength") ??
+      0) as number;
+    const max = (constraint(constraints, "maxItems") ??
+      constraint(constraints, "maxLength") ??
+      min + size) as number;
+    return int(random, min, Math.max(min, Math.min(max, min + size)));
+  };
+  const child = (p: Parser, key: string) =>
+    generateValid(p, ctx, Math.floor(size / 2), depth + 1, [...path, key]);
+  switch (desc.kind) {
+    case "string": {
+      if (desc.format) return fromFormat(random, desc);
+      const pattern = constraint(desc.constraints, "pattern") as
+        | RegExp
+        | undefined;
+      const node = pattern && parseRegex(pattern.source, size);
+      if (node) return fromRegex(random, node);
+      return chars(random, ALPHANUMERIC, length(desc.constraints));
+    }
+    case "number":
+      return fromNumber(random, desc.constraints);
+    case "boolean":
+      return random() < 0.5;
+    case "date": {
+      const min = constraint(desc.constraints, "min") as Date | undefined;
+      const max = constraint(desc.constraints, "max") as Date | undefined;
+      const lo = min?.getTime() ?? Date.UTC(1970, 0, 1);
+      const hi = max?.getTime() ?? Math.max(lo, Date.UTC(2100, 0, 1));
+      return new Date(int(random, lo, hi));
+    }
+    case "literal":
+      return desc.value;
+    case "enums":
+      return pick(random, desc.values);
+    case "unknown":
+      return depth >= MAX_DEPTH
+        ? null
+        : pick(random, [
+            () => null,
+            () => random() < 0.5,
+            () => int(random, -1000, 1000),
+            () => chars(random, ALPHANUMERIC, int(random, 0, size)),
+            () =>
+              Array.from({ length: int(random, 0, size) }, (_, i) =>
+                child(parser, i.toString()),
+              ),
+          ])();
+    case "optional":
+    case "maybe":
+    case "defaulted":
+      if (depth >= MAX_DEPTH || random() < 0.2) {
+        return desc.kind === "defaulted" || random() < 0.5 ? undefined : null;
+      }
+      return arbitrary(desc.parser, ctx, size, depth, path);
+    case "array":
+    case "list":
+      return Array.from({ length: length(desc.constraints) }, (_, i) =>
+        child(desc.parser, i.toString()),
+      );
+    case "set":
+      return new Set(
+        Array.from({ length: length() }, (_, i) =>
+          child(desc.parser, i.toString()),
+        ),
+      );
+    case "object": {
+      const obj: PlainObject = {};
+      for (const key in desc.shape) {
+        const value = child(desc.shape[key], key);
+        if (value !== undefined) obj[key] = value;
+      }
+      return obj;
+    }
+    case "record": {
+      const obj: PlainObject = {};
+      for (let i = length(); i > 0; i--) {
+        const key = child(desc.key, "key");
+        obj[String(key)] = child(desc.value, String(key));
+      }
+      return obj;
+    }
+    case "mapOf":
+      return new Map(
+        Array.from({ length: length() }, (_, i) => [
+          child(desc.key, `${i}.key`),
+          child(desc.value, `${i}.value`),
+        ]),
+      );
+    case "bigint":
+      return BigInt(int(random, -1000, 1000));
+    case "typedArray": {
+      const big = desc.ctor.name.startsWith("Big");
+      const items = Array.from({ length: length() }, () =>
+        big ? BigInt(int(random, 0, 255)) : int(random, 0, 255),
+      );
+      return (desc.ctor.from as (items: unknown[]) => unknown)(items);
+    }
+    case "tuple": {
+      const elements = desc.parsers.map((p, i) => child(p, i.toString()));
+      const { rest } = desc;
+      if (!rest) return elements;
+      return elements.concat(
+        Array.from({ length: int(random, 0, Math.floor(size / 2)) }, (_, i) =>
+          child(rest, (elements.length + i).toString()),
+        ),
+      );
+    }
+    case "union":
+      return arbitrary(
+        depth >= MAX_DEPTH ? desc.parsers[0] : pick(random, desc.parsers),
+        ctx,
+        size,
+        depth,
+        path,
+      );
+    case "discriminatedUnion":
+      return arbitrary(
+        pick(random, Object.values(desc.branches)),
+        ctx,
+        size,
+        depth,
+        path,
+      );
+    case "intersection": {
+      const values = desc.parsers.map((p) =>
+        arbitrary(p, ctx, size, depth, path),
+      );
+      return values.every(isPlainObject)
+        ? Object.assign({}, ...values)
+        : values[0];
+    }
+    case "chain":
+    case "map":
+    case "preprocess":
+    case "refine":
+    case "brand":
+      return arbitrary(desc.parser, ctx, size, depth, path);
+    case "pipe":
+      return arbitrary(desc.parsers[0], ctx, size, depth, path);
+    case "lazy":
+      return arbitrary(desc.getter(), ctx, size, depth, path);
+    case "instanceOf":
+    case "custom":
+      throw new GenerateError(`Cannot generate values for ${desc.kind}`, path);
+  }
+};
+
+/**
+ * Generates input values for a parser until one is accepted.
+ */
+const generateValid = (
+  parser: Parser,
+  ctx: Context,
+  size: number,
+  depth: number,
+  path: string[],
+): unknown => {
+  for (let attempt = 0; attempt < ctx.maxAttempts; attempt++) {
+    const value = arbitrary(parser, ctx, size, depth, path);
+    if (accepts(parser, value)) return value;
+  }
+  throw new GenerateError(
+    `No value was accepted after ${ctx.maxAttempts} attempts`,
+    path,
+  );
+};
+
+/**
+ * Returns a function that generates input values for a parser, one after the other, from a seed.
+ */
+const generator = (parser: Parser, opts: GenerateOptions, seed: number) => {
+  const { size = DEFAULT_SIZE, maxAttempts = 100 } = opts;
+  const ctx: Context = { random: mulberry32(seed), maxAttempts };
+  return () => generateValid(parser, ctx, size, 0, []);
+};
+
+/**
+ * Generates a random input value that a parser accepts. The value is built from the descriptor of the parser, so it respects
+ * literals, enums, unions, tuples, records, optional values, string formats and the constraints of strings, numbers, dates
+ * and arrays, including patterns. Values that are rejected, such as those of refinements, are generated again.
+ * Dates are generated as `Date` objects, and optional values are sometimes `null` or `undefined`.
+ *
+ * @param {Parser} parser - The parser to generate a value for.
+ * @param {GenerateOptions} [opts] - Optional configuration options.
+ * @returns {unknown} An input value that the parser accepts.
+ * @throws {GenerateError} When the parser cannot be generated, such as a custom or `instanceOf` parser,
+ * or when no generated value was accepted.
+ */
+export const generate = (
+  parser: Parser<unknown, never>,
+  opts: GenerateOptions = {},
+): unknown => generator(parser as Parser, opts, opts.seed ?? randomSeed())();
+
+/**
+ * Generates several random input values that a parser accepts, as with `generate`.
+ *
+ * @param {Parser} parser - The parser to generate values for.
+ * @param {number} count - The number of values.
+ * @param {GenerateOptions} [opts] - Optional configuration options.
+ * @returns {unknown[]} Input values that the parser accepts.
+ * @throws {GenerateError} When the parser cannot be generated.
+ */
+export const sample = (
+  parser: Parser<unknown, never>,
+  count: number,
+  opts: GenerateOptions = {},
+): unknown[] => {
+  const next = generator(parser as Parser, opts, opts.seed ?? randomSeed());
+  return Array.from({ length: count }, next);
+};
+
+const without = <T>(items: T[], start: number, end: number): T[] => [
+  ...items.slice(0, start),
+  ...items.slice(end),
+];
+
+/**
+ * Returns values that are smaller than a value, for a parser, from the simplest to the least simple.
+ * The values are not checked against the parser.
+ */
+const smaller = (parser: Parser, value: unknown): unknown[] => {
+  const desc = describe(parser);
+  const shrinkItems = (items: unknown[], item: (i: number) => Parser) => [
+    ...(items.length > 0 ? [[]] : []),
+    ...(items.length > 1
+      ? [
+          items.slice(0, Math.floor(items.length / 2)),
+          items.slice(Math.floor(items.length / 2)),
+        ]
+      : []),
+    ...items.map((_, i) => without(items, i, i + 1)),
+    ...items.flatMap((v, i) =>
+      smaller(item(i), v).map((s) => [
+        ...items.slice(0, i),
+        s,
+        ...items.slice(i + 1),
+      ]),
+    ),
+  ];
+  switch (desc.kind) {
+    case "optional":
+    case "maybe":
+    case "defaulted":
+      return isNil(value) ? [] : [undefined, ...smaller(desc.parser, value)];
+    case "chain":
+    case "map":
+    case "preprocess":
+    case "refine":
+    case "brand":
+      return smaller(desc.parser, value);
+    case "pipe":
+      return smaller(desc.parsers[0], value);
+    case "lazy":
+      return smaller(desc.getter(), value);
+    case "union":
+      return desc.parsers
+        .filter((p) => accepts(p, value))
+        .flatMap((p) => smaller(p, value));
+    case "discriminatedUnion":
+    case "intersection":
+      return (
+        desc.kind === "intersection"
+          ? desc.parsers
+          : Object.values(desc.branches).filter((p) => accepts(p, value))
+      ).flatMap((p) => smaller(p, value));
+    case "number":
+      if (typeof value !== "number" || value === 0) return [];
+      return [
+        0,
+        1,
+        Math.trunc(value),
+        Math.trunc(value / 2),
+        value / 2,
+        value - Math.sign(value),
+      ].filter(
+        (n) =>
+          Math.abs(n) < Math.abs(value) ||
+          (n === Math.trunc(value) && n !== value),
+      );
+    case "bigint":
+      if (typeof value !== "bigint" || value === BigInt(0)) return [];
+      return [BigInt(0), value / BigInt(2)];
+    case "boolean":
+      return value === true ? [false] : [];
+    case "string":
+      if (typeof value !== "string" || value === "") return [];
+      return [
+        "",
+        value.slice(0, Math.floor(value.length / 2)),
+        value.slice(1),
+        value.slice(0, -1),
+      ];
+    case "date":
+      if (!(value instanceof Date) || value.getTime() === 0) return [];
+      return [new Date(0), new Date(Math.trunc(value.getTime() / 2))];
+    case "unknown":
+      return value === null ? [] : [null];
+    case "enums":
+      return value === desc.values[0] ? [] : [desc.values[0]];
+    case "array":
+    case "list":
+      return isArray(value) ? shrinkItems(value, () => desc.parser) : [];
+    case "tuple": {
+      if (!isArray(value)) return [];
+      const { parsers, rest } = desc;
+      const elements = value.slice(0, parsers.length);
+      return [
+        ...(value.length > parsers.length ? [elements] : []),
+        ...shrinkItems(value, (i) => parsers[i] ?? rest).filter(
+          (items) => items.length >= parsers.length,
+        ),
+      ];
+    }
+    case "set":
+      return value instanceof Set
+        ? shrinkItems([...value], () => desc.parser).map(
+            (items) => new Set(items),
+          )
+        : [];
+    case "mapOf":
+      return value instanceof Map
+        ? shrinkItems([...value], () => desc.value).map(
+            (entries) => new Map(entries as [unknown, unknown][]),
+          )
+        : [];
+    case "object": {
+      if (!isPlainObject(value)) return [];
+      const props = Object.keys(desc.shape).filter((key) => key in value);
+      return [
+        ...props.map((key) =>
+          Object.fromEntries(Object.entries(value).filter(([k]) => k !== key)),
+        ),
+        ...props.flatMap((key) =>
+          smaller(desc.shape[key], value[key]).map((v) => ({
+            ...value,
+            [key]: v,
+          })),
+        ),
+      ];
+    }
+    case "record": {
+      if (!isPlainObject(value)) return [];
+      const entries = Object.entries(value);
+      return shrinkItems(
+        entries.map(([, v]) => v),
+        () => desc.value,
+      )
+        .filter((values) => values.length === entries.length)
+        .map((values) =>
+          Object.fromEntries(entries.map(([k], i) => [k, values[i]])),
+        )
+        .concat(
+          entries.map((_, i) => Object.fromEntries(without(entries, i, i + 1))),
+        );
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Shrinks a value that makes a test fail to a smaller value that the parser still accepts and that still makes the test fail.
+ * Numbers move towards zero, strings, arrays, records, maps and sets lose items, optional values become `undefined`,
+ * and the properties and items of objects, tuples and arrays are shrunk one by one.
+ *
+ * @param {Parser} parser - The parser of the value.
+ * @param {unknown} value - The input value that makes the test fail.
+ * @param {(value: unknown) => boolean} fails - Returns whether the test still fails for a smaller value.
+ * @param {ShrinkOptions} [opts] - Optional configuration options.
+ * @returns {unknown} The smallest value found.
+ */
+export const shrink = (
+  parser: Parser<unknown, never>,
+  value: unknown,
+  fails: (value: unknown) => boolean,
+  opts: ShrinkOptions = {},
+): unknown => {
+  const { maxSteps = 1000 } = opts;
+  const p = parser as Parser;
+  let current = value;
+  for (let step = 0; step < maxSteps; step++) {
+    const candidates = smaller(p, current);
+    const i = candidates.findIndex(
+      (candidate) => accepts(p, candidate) && fails(candidate),
+    );
+    if (i === -1) break;
+    current = candidates[i];
+  }
+  return current;
+};
+
+/**
+ * Checks that a property holds for random values accepted by a parser. The property is called with the output of the parser,
+ * and fails when it returns `false` or throws. The first failing value is shrunk to a minimal one, unless `shrink` is `false`.
+ *
+ * @example
+ * check(z.array(z.number()), (arr) => arr.length < 10).mapErr(console.log);
+ *
+ * @template T - The type of the parsed value.
+ * @param {Parser<T>} parser - The parser of the values.
+ * @param {(value: T) => boolean | void} property - The property to check.
+ * @param {CheckOptions} [opts] - Optional configuration options.
+ * @returns {Result<number, Counterexample>} An Ok result with the number of runs, or an Err result with the failing value.
+ * @throws {GenerateError} When the parser cannot be generated.
+ */
+export const check = <T>(
+  parser: Parser<T>,
+  property: (value: T) => boolean | void,
+  opts: CheckOptions = {},
+): Result<number, Counterexample> => {
+  const { runs = 100, seed = randomSeed() } = opts;
+  const run = (input: unknown): { failed: boolean; error?: unknown } => {
+    try {
+      return { failed: property(parser(input).unwrap()) === false };
+    } catch (error) {
+      return { failed: true, error };
+    }
+  };
+  for (let i = 0; i < runs; i++) {
+    const runSeed = (seed + i) >>> 0;
+    const original = generator(parser as Parser, opts, runSeed)();
+    if (!run(original).failed) continue;
+    const value =
+      opts.shrink === false
+        ? original
+        : shrink(parser, original, (v) => run(v).failed, opts);
+    const { error } = run(value);
+    return Err({
+      value,
+      original,
+      ...(error !== undefined && { error }),
+      seed: runSeed,
+      run: i,
+    });
+  }
+  return Ok(runs);
+};
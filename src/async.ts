@@ -0,0 +1,580 @@
+import type { ParseError } from "./errors";
+import {
+  AggregateParseError,
+  ConstraintError,
+  leafErrors,
+  localize,
+  prependPath,
+  shouldAbort,
+  typeErr,
+  unknownKeyErr,
+} from "./errors";
+import { expectedOf } from "./descriptor";
+import { isArray, isPlainObject } from "./guards";
+import type {
+  ObjectOptions,
+  OptionalTail,
+  ParseOptions,
+  Parser,
+  RefineOptions,
+  TupleOptions,
+} from "./parsing";
+import type { Result } from "./result";
+import type { PlainObject } from "./types";
+import { Err, Ok } from "./result";
+import { Type } from "./util";
+
+/**
+ * Options that are passed down from an async parser to every nested parser it calls.
+ * @typedef {Object} AsyncParseOptions
+ * @property {number} [concurrency=Infinity] - How many children the object, array, record and tuple parsers of a parse run at the same time,
+ * counted across all of them, nested ones included: a positive integer, or `Infinity`. The parsers reject with a `RangeError` for other values.
+ */
+export type AsyncParseOptions = ParseOptions & {
+  concurrency?: number;
+};
+
+/**
+ * An AsyncParser is a function that takes an input value of type I and returns a Promise of a Result object
+ * containing either the parsed output value of type O or a ParserError object if parsing failed.
+ * @template {unknown} I - The type of the input value.
+ * @template {unknown} O - The type of the output value.
+ * @typedef {function(I, AsyncParseOptions=): Promise<Result<O, ParseError>>} AsyncParser
+ */
+export type AsyncParser<O = unknown, I = unknown> = (
+  input: I,
+  opts?: AsyncParseOptions,
+) => Promise<Result<O, ParseError>>;
+
+/**
+ * Either a Parser or an AsyncParser. The async combinators accept both as children.
+ */
+export type AnyParser<O = unknown, I = unknown> =
+  | Parser<O, I>
+  | AsyncParser<O, I>;
+
+/**
+ * The Infer type extracts the output type U of a Parser<U> or AsyncParser<U> type.
+ * @template {AnyParser} T - The type to infer from.
+ */
+export type Infer<T> = T extends AsyncParser<infer U>
+  ? U
+  : T extends Parser<infer U>
+  ? U
+  : never;
+
+/**
+ * The Shape type of async object parsers, which may mix sync and async parsers.
+ */
+export type Shape = { [key: string]: AnyParser };
+
+/**
+ * The InferShape type extracts the output type of an async object parser from its shape.
+ * Like the `InferShape` type of sync parsers, keys whose parsers may return `undefined` are optional.
+ * @template {Shape} S - The shape to infer from.
+ */
+export type InferShape<S extends Shape> = Flatten<
+  {
+    [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+  } & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+  }
+>;
+
+/**
+ * The ExactInferShape type extracts the output type of an async object parser built with the `exact` option.
+ * @template {Shape} S - The shape to infer from.
+ */
+export type ExactInferShape<S extends Shape> = Flatten<
+  {
+    [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+  } & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Exclude<
+      Infer<S[K]>,
+      undefined
+    >;
+  }
+>;
+
+type Flatten<T> = { [K in keyof T]: T[K] } & unknown;
+
+type Task<T> = (
+  opts?: AsyncParseOptions,
+) => Result<T, ParseError> | Promise<Result<T, ParseError>>;
+
+/**
+ * The slots shared by every `run` of one parse, so that `concurrency` limits the tasks of the whole parse
+ * and not those of each parser. `waiting` holds the workers waiting for a slot, first come first served.
+ */
+type Limiter = { free: number; waiting: ((acquired: boolean) => void)[] };
+
+const limiters = new WeakMap<AsyncParseOptions, Limiter>();
+
+/**
+ * Runs tasks with at most `opts.concurrency` tasks of the whole parse pending at the same time. When aborting early,
+ * no new task is started after one fails, so the results of tasks that never started are `undefined`.
+ * The top-level call sets up the slots and passes them to the tasks in their options. Nested calls run their first task
+ * in the slot of the task that called them, so they always make progress, and wait for free slots to run more at once.
+ *
+ * @param {Task[]} tasks - The tasks to run.
+ * @param {AsyncParseOptions} [opts] - The options passed to the parser.
+ * @returns {Promise<Array<Result | undefined>>} The results, in the same order as the tasks.
+ * @throws {RangeError} When `opts.concurrency` is not a positive integer or `Infinity`.
+ */
+const run = async <T>(
+  tasks: Task<T>[],
+  opts?: AsyncParseOptions,
+): Promise<(Result<T, ParseError> | undefined)[]> => {
+  const results: (Result<T, ParseError> | undefined)[] = Array(tasks.length);
+  let limiter = opts && limiters.get(opts);
+  if (!limiter) {
+    const limit = opts?.concurrency ?? Infinity;
+    if (limit !== Infinity && !(Number.isInteger(limit) && limit > 0)) {
+      throw new RangeError(
+        `concurrency must be a positive integer or Infinity, got ${limit}`,
+      );
+    }
+    limiter = { free: limit - 1, waiting: [] };
+    opts = { ...opts };
+    limiters.set(opts, limiter);
+  }
+  const slots = limiter;
+  let next = 0;
+  let failed = false;
+  const pending: ((acquired: boolean) => void)[] = [];
+  const acquire = (): Promise<boolean> => {
+    if (slots.free > 0) {
+      slots.free--;
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      pending.push(resolve);
+      slots.waiting.push(resolve);
+    });
+  };
+  const release = () => {
+    const resolve = slots.waiting.shift();
+    if (resolve) resolve(true);
+    else slots.free++;
+  };
+  const work = async () => {
+    while (next < tasks.length && !(failed && shouldAbort(opts))) {
+      const i = next++;
+      const res = await tasks[i](opts);
+      results[i] = res;
+      if (res.isErr()) failed = true;
+    }
+    // Workers still waiting for a slot have nothing left to run, and would hold up the parse.
+    for (const resolve of pending) {
+      const i = slots.waiting.indexOf(resolve);
+      if (i !== -1) {
+        slots.waiting.splice(i, 1);
+        resolve(false);
+      }
+    }
+  };
+  const helper = async () => {
+    if (!(await acquire())) return;
+    try {
+      await work();
+    } finally {
+      release();
+    }
+  };
+  const helpers = Array.from({ length: tasks.length - 1 }, helper);
+  await Promise.all([work(), ...helpers]);
+  return results;
+};
+
+/**
+ * Turns the results of child parsers into the values they produced, or into the error to return.
+ * Errors are reported in the order of the results, so the error returned when aborting early does not depend on timing.
+ *
+ * @param {Array<Result | undefined>} results - The results of the child parsers.
+ * @param {string[]} keys - The path segment of each result.
+ * @param {string} expected - The expected type, used for aggregate errors.
+ * @param {unknown} input - The input value of the parent parser.
+ * @param {AsyncParseOptions} [opts] - The options passed to the parser.
+ * @returns {Result<unknown[], ParseError>} The values of the results, or an error.
+ */
+const gather = (
+  results: (Result<unknown, ParseError> | undefined)[],
+  keys: string[],
+  expected: string,
+  input: unknown,
+  opts?: AsyncParseOptions,
+): Result<unknown[], ParseError> => {
+  const values: unknown[] = Array(results.length);
+  const errors: ParseError[] = [];
+  for (let i = 0; i < results.length; i++) {
+    const res = results[i];
+    if (!res) continue;
+    if (res.isErr()) {
+      const err = prependPath(res.unwrapErr(), keys[i]);
+      if (shouldAbort(opts)) return Err(err);
+      errors.push(...leafErrors(err));
+      continue;
+    }
+    values[i] = res.unwrap();
+  }
+  if (errors.length > 0) {
+    return Err(
+      localize(new AggregateParseError(errors, expected, input), opts),
+    );
+  }
+  return Ok(values);
+};
+
+/**
+ * Returns whether an object parser sets a key of its output, as for sync object parsers.
+ */
+const isPresent = (
+  input: PlainObject,
+  key: string,
+  value: unknown,
+  exact: boolean,
+): boolean =>
+  value !== undefined ||
+  (!exact && Object.prototype.hasOwnProperty.call(input, key));
+
+/**
+ * Returns an async parser that parses an object of a given `Shape` from the input. Every key is parsed at the same time,
+ * up to `opts.concurrency`.
+ *
+ * @template S A `Shape` object describing the shape of the object to parse.
+ * @param {S} shape The `Shape` object describing the shape of the object to parse.
+ * @param {ObjectOptions} [options] - Optional configuration options. The `catchall` parser may be async.
+ * @returns {AsyncParser<InferShape<S>>} An async parser that parses an object of type `InferShape<S>`, or `ExactInferShape<S>`
+ * with the `exact` option, from the input.
+ */
+export const object =
+  <S extends Shape, E extends boolean = false>(
+    shape: S,
+    {
+      catchall,
+      unknownKeys = catchall ? "passthrough" : "strip",
+      exact = false as E,
+    }: Omit<ObjectOptions, "catchall" | "exact"> & {
+      catchall?: AnyParser;
+      exact?: E;
+    } = {},
+  ): AsyncParser<E extends true ? ExactInferShape<S> : InferShape<S>> =>
+  async (input, opts) => {
+    if (!isPlainObject(input)) return Err(typeErr(Type.Object, input, opts));
+    const keys: string[] = [];
+    const tasks: Task<unknown>[] = [];
+    for (const key in shape) {
+      keys.push(key);
+      tasks.push((opts) => shape[key](input[key], opts));
+    }
+    const known = keys.length;
+    if (unknownKeys !== "strip") {
+      for (const key in input) {
+        if (Object.prototype.hasOwnProperty.call(shape, key)) continue;
+        const value = input[key];
+        keys.push(key);
+        tasks.push(
+          unknownKeys === "strict"
+            ? () => Err(unknownKeyErr(key, value, opts))
+            : catchall
+            ? (opts) => catchall(value, opts)
+            : () => Ok(value),
+        );
+      }
+    }
+    const results = await run(tasks, opts);
+    return gather(results, keys, Type.Object, input, opts).map((values) => {
+      const obj = Object.create(null);
+      keys.forEach((key, i) => {
+        if (i >= known || isPresent(input, key, values[i], exact)) {
+          obj[key] = values[i];
+        }
+      });
+      return obj;
+    });
+  };
+
+/**
+ * Returns an async parser that parses an array of items of type `T` from the input using the given `parser`.
+ * Every item is parsed at the same time, up to `opts.concurrency`.
+ *
+ * @template T The type of items in the array.
+ * @param {AnyParser<T>} parser The parser to use to parse each item in the array.
+ * @returns {AsyncParser<T[]>} An async parser that parses an array of `T` items from the input.
+ */
+export const array =
+  <T>(parser: AnyParser<T>): AsyncParser<T[]> =>
+  async (input, opts) => {
+    if (!isArray(input)) return Err(typeErr(Type.Array, input, opts));
+    const results = await run(
+      input.map((item) => (opts) => parser(item, opts)),
+      opts,
+    );
+    const keys = input.map((_, i) => i.toString());
+    return gather(results, keys, Type.Array, input, opts) as Result<
+      T[],
+      ParseError
+    >;
+  };
+
+/**
+ * Returns an async parser that parses a record from the input using the given `keyParser` and `valueParser`.
+ * Every entry is parsed at the same time, up to `opts.concurrency`.
+ *
+ * @template K The type of keys in the record.
+ * @template T The type of values in the record.
+ * @param {AnyParser<K>} keyParser The parser to use to parse the keys of the record.
+ * @param {AnyParser<T>} valueParser The parser to use to parse the values of the record.
+ * @returns {AsyncParser<Record<K, T>>} An async parser that parses a record of keys of type `K` and values of type `T`.
+ */
+export const record =
+  <K extends string, T>(
+    keyParser: AnyParser<K>,
+    valueParser: AnyParser<T>,
+  ): AsyncParser<Record<K, T>> =>
+  async (input, opts) => {
+    if (!isPlainObject(input)) return Err(typeErr(Type.Object, input, opts));
+    const keys: string[] = [];
+    const tasks: Task<unknown>[] = [];
+    for (const key in input) {
+      keys.push(key, key);
+      tasks.push(
+        (opts) => keyParser(key, opts),
+        (opts) => valueParser(input[key], opts),
+      );
+    }
+    const results = await run(tasks, opts);
+    return gather(results, keys, Type.Object, input, opts).map((values) => {
+      const obj = Object.create(null);
+      for (let i = 0; i < values.length; i += 2) {
+        obj[values[i] as K] = values[i + 1];
+      }
+      return obj;
+    });
+  };
+
+/**
+ * The InferAsyncTuple type extracts the output types of a tuple of sync or async parsers.
+ * Like `InferTupleWithRest`, trailing elements whose type includes `undefined` are optional.
+ * @template {AnyParser[]} Tuple - The tuple of parsers.
+ * @template {AnyParser | undefined} Rest - The parser of the elements after them.
+ */
+export type InferAsyncTuple<
+  Tuple extends AnyParser[],
+  Rest extends AnyParser | undefined = undefined,
+> = Rest extends AnyParser
+  ? [...OptionalTail<InferElements<Tuple>>, ...Infer<Rest>[]]
+  : OptionalTail<InferElements<Tuple>>;
+
+type InferElements<Tuple extends AnyParser[]> = {
+  [K in keyof Tuple]: Infer<Tuple[K]>;
+};
+
+/**
+ * Takes an array of parsers and returns an async parser that produces a tuple with the results of each parser in the array.
+ * Every element is parsed at the same time, up to `opts.concurrency`. Elements after the tuple are parsed
+ * with the `rest` parser, or make the parser fail with a `maxItems` constraint error if there is none.
+ *
+ * @template A - The type of the first parser.
+ * @template B - The type of the rest of the parsers.
+ * @template R - The type of the rest parser.
+ * @param { [A, ...B] } parsers - The array of parsers to apply to the input.
+ * @param { TupleOptions<R> } [options] - Optional configuration options. The `rest` parser may be async.
+ * @returns { AsyncParser<InferAsyncTuple<[A, ...B], R>> } - An async parser that produces a tuple with the results of each parser in the array.
+ */
+export const tuple =
+  <
+    A extends AnyParser,
+    B extends AnyParser[],
+    R extends AnyParser | undefined = undefined,
+  >(
+    parsers: [A, ...B],
+    { rest }: TupleOptions<R> = {},
+  ): AsyncParser<InferAsyncTuple<[A, ...B], R>> =>
+  async (input, opts) => {
+    if (!isArray(input)) return Err(typeErr(Type.Array, input, opts));
+    const length = rest
+      ? Math.max(input.length, parsers.length)
+      : parsers.length;
+    const surplus =
+      !rest && input.length > parsers.length
+        ? localize(
+            new ConstraintError(
+              `Array must contain at most ${length} item${
+                length === 1 ? "" : "s"
+              }`,
+              "maxItems",
+              { value: length },
+              input,
+            ),
+            opts,
+          )
+        : undefined;
+    if (surplus && shouldAbort(opts)) return Err(surplus);
+    const keys = Array.from({ length }, (_, i) => i.toString());
+    const results = await run(
+      keys.map((_, i) => (opts) => {
+        const parser = i < parsers.length ? parsers[i] : (rest as AnyParser);
+        return parser(input[i], opts);
+      }),
+      opts,
+    );
+    const res = gather(results, keys, Type.Array, input, opts);
+    if (!surplus) {
+      return res as Result<InferAsyncTuple<[A, ...B], R>, ParseError>;
+    }
+    const errors = res.isErr() ? leafErrors(res.unwrapErr()) : [];
+    return Err(
+      localize(
+        new AggregateParseError([surplus, ...errors], Type.Array, input),
+        opts,
+      ),
+    );
+  };
+
+/**
+ * An async parser that attempts to match the input with one of several parsers, one after the other.
+ * The first parser to successfully match the input is used to parse the input.
+ *
+ * @template A The type of the first parser in the list.
+ * @template B The type of the remaining parsers in the list.
+ * @param {[A, ...B]} parsers An ordered list of parsers to attempt to match the input against.
+ * @returns {AsyncParser<Infer<A> | InferAsyncTuple<B>[number]>} An async parser that returns the value parsed by the first parser to match the input.
+ */
+export const union =
+  <A extends AnyParser, B extends AnyParser[]>(
+    parsers: [A, ...B],
+  ): AsyncParser<Infer<A> | InferAsyncTuple<B>[number]> =>
+  async (input, opts) => {
+    const errors: ParseError[] = [];
+    for (const parser of parsers) {
+      const res = await parser(input, opts);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      if (res.isOk()) return res as any;
+      errors.push(res.unwrapErr());
+    }
+    const expected = parsers.map((p) => expectedOf(p as Parser)).join(" | ");
+    return Err(typeErr(expected, input, opts, "invalid_union", { errors }));
+  };
+
+/**
+ * Takes a parser and a function that maps its output to a new value, and returns an async parser that applies the function
+ * to the output of the original parser. Both the parser and the function may be async.
+ *
+ * @template T - The type of the output of the original parser.
+ * @template O - The type of the output of the new parser.
+ * @param {AnyParser<T>} parser - The original parser to apply the mapping function to.
+ * @param {(value: T, opts?: AsyncParseOptions) => Result<O, ParseError> | Promise<Result<O, ParseError>>} f - The function to apply to the output of the original parser.
+ * It is called with the parse options.
+ * @returns {AsyncParser<O>} - An async parser that applies the mapping function to the output of the original parser.
+ */
+export const map =
+  <T, O>(
+    parser: AnyParser<T>,
+    f: (
+      value: T,
+      opts?: AsyncParseOptions,
+    ) => Result<O, ParseError> | Promise<Result<O, ParseError>>,
+  ): AsyncParser<O> =>
+  async (input, opts) => {
+    const res = await parser(input, opts);
+    return res.isOk()
+      ? f(res.unwrap(), opts)
+      : (res as unknown as Result<O, ParseError>);
+  };
+
+/**
+ * A parser in an async pipeline. It has a single signature, so that inline parsers get the type of their input.
+ */
+type Stage<O, I> = (
+  input: I,
+  opts?: AsyncParseOptions,
+) => Result<O, ParseError> | Promise<Result<O, ParseError>>;
+
+/**
+ * The type of `pipe`, the async counterpart of `z.Pipe`.
+ */
+export type Pipe = {
+  <I, A, B>(a: Stage<A, I>, b: Stage<B, A>): AsyncParser<B, I>;
+  <I, A, B, C>(a: Stage<A, I>, b: Stage<B, A>, c: Stage<C, B>): AsyncParser<
+    C,
+    I
+  >;
+  <I, A, B, C, D>(
+    a: Stage<A, I>,
+    b: Stage<B, A>,
+    c: Stage<C, B>,
+    d: Stage<D, C>,
+  ): AsyncParser<D, I>;
+  <I, A, B, C, D, E>(
+    a: Stage<A, I>,
+    b: Stage<B, A>,
+    c: Stage<C, B>,
+    d: Stage<D, C>,
+    e: Stage<E, D>,
+  ): AsyncParser<E, I>;
+  <I, A, B, C, D, E, F>(
+    a: Stage<A, I>,
+    b: Stage<B, A>,
+    c: Stage<C, B>,
+    d: Stage<D, C>,
+    e: Stage<E, D>,
+    f: Stage<F, E>,
+  ): AsyncParser<F, I>;
+};
+
+/**
+ * Returns an async parser that runs parsers one after the other, each on the output of the one before it,
+ * like `z.pipe`. The parsers may be async. It stops at the first parser that fails and returns its error as it is.
+ *
+ * @param parsers - The parsers to run, from first to last.
+ * @returns An async parser that returns the output of the last parser.
+ */
+export const pipe: Pipe =
+  (...parsers: Stage<unknown, never>[]) =>
+  async (input: unknown, opts?: AsyncParseOptions) => {
+    let res: Result<unknown, ParseError> = Ok(input);
+    for (const parser of parsers as Stage<unknown, unknown>[]) {
+      res = await parser(res.unwrap(), opts);
+      if (res.isErr()) break;
+    }
+    return res as Result<never, ParseError>;
+  };
+
+/**
+ * Returns an async parser that transforms its input with a function before parsing it, like `z.preprocess`.
+ * Both the function and the parser may be async.
+ *
+ * @template T - The type of the parsed value.
+ * @param {(input: unknown) => unknown} f - The function to apply to the input.
+ * @param {AnyParser<T>} parser - The parser to run on the transformed input.
+ * @returns {AsyncParser<T>} An async parser that returns the output of `parser` for the transformed input.
+ */
+export const preprocess =
+  <T>(f: (input: unknown) => unknown, parser: AnyParser<T>): AsyncParser<T> =>
+  async (input, opts) =>
+    parser(await f(input), opts);
+
+/**
+ * Returns an async parser that checks the output of a parser with a predicate, such as a lookup in a database.
+ *
+ * @template T - The type of the parsed value.
+ * @param {AnyParser<T>} parser - The parser whose output to check.
+ * @param {(value: T) => boolean | Promise<boolean>} predicate - The check to run on the output.
+ * @param {RefineOptions} [options] - Optional configuration options, the same as for `z.refine`.
+ * @returns {AsyncParser<T>} An async parser that returns the output of `parser` if the predicate holds, or an error otherwise.
+ */
+export const refine = <T>(
+  parser: AnyParser<T>,
+  predicate: (value: T) => boolean | Promise<boolean>,
+  {
+    name = "refine",
+    params = {},
+    message = "Invalid value",
+  }: RefineOptions = {},
+): AsyncParser<T> =>
+  map(parser, async (value, opts) =>
+    (await predicate(value))
+      ? Ok(value)
+      : Err(localize(new ConstraintError(message, name, params, value), opts)),
+  );
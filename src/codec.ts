@@ -0,0 +1,345 @@
+import type { DescriptorOf } from "./descriptor";
+import { isNil } from "./guards";
+import type { List } from "./list";
+import type { Option } from "./option";
+import type {
+  ArrayOptions,
+  DateOptions,
+  NumberOptions,
+  Parser,
+  StringOptions,
+  UnknownKeys,
+} from "./parsing";
+import * as z from "./parsing";
+import type { Literal, Maybe, PlainObject } from "./types";
+
+/**
+ * A Codec pairs a parser that decodes wire data into a value of type O with a function that encodes such a value
+ * back into wire data of type I, so that `decode(encode(value))` returns an equal value.
+ * The parser is built with the `z.*` functions, so it can be described and exported like any other parser.
+ * @template {unknown} O - The type of the decoded value.
+ * @template {unknown} I - The type of the encoded value.
+ * @property {Parser<O>} decode - Parses wire data into a value.
+ * @property {function(O): I} encode - Turns a value back into wire data.
+ */
+export type Codec<O = unknown, I = unknown> = {
+  readonly decode: Parser<O>;
+  encode(value: O): I;
+};
+
+/**
+ * Extracts the type of the decoded value of a codec.
+ * @template {Codec} C - The codec.
+ */
+export type Output<C extends Codec> = C extends Codec<infer O> ? O : never;
+
+/**
+ * Extracts the type of the encoded value of a codec.
+ * @template {Codec} C - The codec.
+ */
+export type Input<C extends Codec> = C extends Codec<unknown, infer I>
+  ? I
+  : never;
+
+/**
+ * A Shape is an object whose values are codecs.
+ */
+export type Shape = { [key: string]: Codec };
+
+/**
+ * The OutputShape type maps each codec of a shape to the type of its decoded value.
+ * As for `z.InferShape`, keys whose decoded value may be `undefined` are optional.
+ * @template {Shape} S - The shape.
+ */
+export type OutputShape<S extends Shape> = Flatten<
+  {
+    [K in keyof S as undefined extends Output<S[K]> ? never : K]: Output<S[K]>;
+  } & {
+    [K in keyof S as undefined extends Output<S[K]> ? K : never]?: Output<S[K]>;
+  }
+>;
+
+/**
+ * The InputShape type maps each codec of a shape to the type of its encoded value.
+ * Keys whose encoded value may be `undefined` are optional.
+ * @template {Shape} S - The shape.
+ */
+export type InputShape<S extends Shape> = Flatten<
+  {
+    [K in keyof S as undefined extends Input<S[K]> ? never : K]: Input<S[K]>;
+  } & {
+    [K in keyof S as undefined extends Input<S[K]> ? K : never]?: Input<S[K]>;
+  }
+>;
+
+type Flatten<T> = { [K in keyof T]: T[K] } & unknown;
+
+/**
+ * Options for object codecs.
+ * @property {UnknownKeys} [unknownKeys] - What to do with keys that are not in the shape, as for `z.object`.
+ * Unknown keys are encoded as they are, or with the catchall codec.
+ * @property {Codec} [catchall] - A codec for the values of unknown keys.
+ */
+export type ObjectOptions = {
+  unknownKeys?: UnknownKeys;
+  catchall?: Codec;
+};
+
+/**
+ * Returns a codec made of a parser and the function that encodes its output.
+ *
+ * @template O - The type of the decoded value.
+ * @template I - The type of the encoded value.
+ * @param {Parser<O>} decode - The parser that decodes wire data.
+ * @param {function(O): I} encode - The function that encodes a decoded value.
+ * @returns {Codec<O, I>} The codec.
+ */
+export const codec = <O, I>(
+  decode: Parser<O>,
+  encode: (value: O) => I,
+): Codec<O, I> => ({ decode, encode });
+
+/**
+ * Returns a codec for a parser whose output is already wire data, which is encoded as it is.
+ *
+ * @template T - The type of the value.
+ * @param {Parser<T>} parser - The parser.
+ * @returns {Codec<T, T>} The codec.
+ */
+export const from = <T>(parser: Parser<T>): Codec<T, T> =>
+  codec(parser, (value) => value);
+
+/**
+ * Returns a codec for strings. See `z.string`.
+ */
+export const string = (opts?: StringOptions): Codec<string, string> =>
+  from(z.string(opts));
+
+/**
+ * Returns a codec for numbers. See `z.number`.
+ */
+export const number = (opts?: NumberOptions): Codec<number, number> =>
+  from(z.number(opts));
+
+/**
+ * Returns a codec for booleans. See `z.boolean`.
+ */
+export const boolean = (): Codec<boolean, boolean> => from(z.boolean());
+
+/**
+ * Returns a codec for email addresses. See `z.email`.
+ */
+export const email = (): Codec<string, string> => from(z.email());
+
+/**
+ * Returns a codec for UUIDs. See `z.uuid`.
+ */
+export const uuid = (): Codec<string, string> => from(z.uuid());
+
+/**
+ * Returns a codec for constants. See `z.literal`.
+ */
+export const literal = <T extends Literal>(constant: T): Codec<T, T> =>
+  from(z.literal(constant));
+
+/**
+ * Returns a codec for the values of an enum. See `z.enums`.
+ */
+export const enums = <T extends { [key: string]: string | number }>(
+  en: T,
+): Codec<T[keyof T], T[keyof T]> => from(z.enums(en));
+
+/**
+ * A codec that decodes and encodes any value as it is.
+ */
+export const unknown: Codec<unknown, unknown> = from(z.unknown);
+
+/**
+ * Returns a codec that decodes an ISO 8601 string, or a timestamp, into a Date and encodes a Date as an ISO 8601 string.
+ *
+ * @param {DateOptions} [opts] - The constraints of the date. Strings and numbers are always coerced.
+ * @returns {Codec<Date, string>} The codec.
+ */
+export const date = (opts?: DateOptions): Codec<Date, string> =>
+  codec(z.date({ ...opts, coerce: true }), (value) => value.toISOString());
+
+/**
+ * Returns a codec that decodes `null` and `undefined` into `None` and any other value into `Some`,
+ * and encodes `None` as `null`.
+ *
+ * @template O - The type of the decoded value.
+ * @template I - The type of the encoded value.
+ * @param {Codec<O, I>} inner - The codec of the value.
+ * @returns {Codec<Option<O>, I | null>} The codec.
+ */
+export const optional = <O, I>(
+  inner: Codec<O, I>,
+): Codec<Option<O>, I | null> =>
+  codec(z.optional(inner.decode), (value) =>
+    value.match<I | null>(inner.encode, () => null),
+  );
+
+/**
+ * Returns a codec that decodes and encodes `null` and `undefined` as they are.
+ *
+ * @template O - The type of the decoded value.
+ * @template I - The type of the encoded value.
+ * @param {Codec<O, I>} inner - The codec of the value.
+ * @returns {Codec<Maybe<O>, Maybe<I>>} The codec.
+ */
+export const maybe = <O, I>(inner: Codec<O, I>): Codec<Maybe<O>, Maybe<I>> =>
+  codec(z.maybe(inner.decode), (value) =>
+    isNil(value) ? value : inner.encode(value),
+  );
+
+/**
+ * Returns a codec that decodes `null` and `undefined` into a default value. The default value is encoded like any other.
+ *
+ * @template O - The type of the decoded value.
+ * @template I - The type of the encoded value.
+ * @param {Codec<O, I>} inner - The codec of the value.
+ * @param {O} def - The default value.
+ * @returns {Codec<O, I>} The codec.
+ */
+export const defaulted = <O, I>(inner: Codec<O, I>, def: O): Codec<O, I> =>
+  codec(z.defaulted(inner.decode, def), inner.encode);
+
+/**
+ * Returns a codec for arrays. See `z.array`.
+ *
+ * @template O - The type of the decoded items.
+ * @template I - The type of the encoded items.
+ * @param {Codec<O, I>} item - The codec of the items.
+ * @param {ArrayOptions} [opts] - The constraints of the array.
+ * @returns {Codec<O[], I[]>} The codec.
+ */
+export const array = <O, I>(
+  item: Codec<O, I>,
+  opts?: ArrayOptions,
+): Codec<O[], I[]> =>
+  codec(z.array(item.decode, opts), (value) =>
+    value.map((v) => item.encode(v)),
+  );
+
+/**
+ * Returns a codec that decodes an array into a List and encodes a List as an array. See `z.list`.
+ *
+ * @template O - The type of the decoded items.
+ * @template I - The type of the encoded items.
+ * @param {Codec<O, I>} item - The codec of the items.
+ * @param {ArrayOptions} [opts] - The constraints of the array.
+ * @returns {Codec<List<O>, I[]>} The codec.
+ */
+export const list = <O, I>(
+  item: Codec<O, I>,
+  opts?: ArrayOptions,
+): Codec<List<O>, I[]> =>
+  codec(z.list(item.decode, opts), (value) =>
+    value.toArray().map((v) => item.encode(v)),
+  );
+
+/**
+ * Returns a codec for objects. See `z.object`. Only the keys of the shape are encoded,
+ * unless unknown keys are passed through.
+ *
+ * @template S - The shape of the object.
+ * @param {S} shape - The codec of each property.
+ * @param {ObjectOptions} [opts] - What to do with unknown keys.
+ * @returns {Codec<OutputShape<S>, InputShape<S>>} The codec.
+ */
+export const object = <S extends Shape>(
+  shape: S,
+  opts: ObjectOptions = {},
+): Codec<OutputShape<S>, InputShape<S>> => {
+  const decoders: { [key: string]: Parser } = {};
+  for (const key in shape) decoders[key] = shape[key].decode;
+  const decode = z.object(decoders, {
+    unknownKeys: opts.unknownKeys,
+    catchall: opts.catchall?.decode,
+  });
+  const { unknownKeys } = z.describe(decode) as DescriptorOf<"object">;
+  return codec(decode as Parser<OutputShape<S>>, (decoded) => {
+    const value: PlainObject = decoded;
+    const obj: PlainObject = {};
+    for (const key in value) {
+      if (Object.prototype.hasOwnProperty.call(shape, key)) {
+        obj[key] = shape[key].encode(value[key]);
+      } else if (unknownKeys === "passthrough") {
+        obj[key] = opts.catchall
+          ? opts.catchall.encode(value[key])
+          : value[key];
+      }
+    }
+    return obj as InputShape<S>;
+  });
+};
+
+/**
+ * Returns a codec for records. See `z.record`.
+ *
+ * @template K - The type of the keys.
+ * @template O - The type of the decoded values.
+ * @template I - The type of the encoded values.
+ * @param {Codec<K, string>} key - The codec of the keys.
+ * @param {Codec<O, I>} value - The codec of the values.
+ * @returns {Codec<Record<K, O>, Record<string, I>>} The codec.
+ */
+export const record = <K extends string, O, I>(
+  key: Codec<K, string>,
+  value: Codec<O, I>,
+): Codec<Record<K, O>, Record<string, I>> =>
+  codec(z.record(key.decode, value.decode), (rec) => {
+    const obj: Record<string, I> = {};
+    for (const k in rec) obj[key.encode(k)] = value.encode(rec[k]);
+    return obj;
+  });
+
+/**
+ * Returns a codec for tuples. See `z.tuple`.
+ *
+ * @template T - The codecs of the elements.
+ * @param {T} codecs - The codec of each element.
+ * @returns {Codec} The codec.
+ */
+export const tuple = <T extends [Codec, ...Codec[]]>(
+  codecs: T,
+): Codec<{ [K in keyof T]: Output<T[K]> }, { [K in keyof T]: Input<T[K]> }> =>
+  codec(
+    z.tuple(
+      codecs.map((c) => c.decode) as [Parser, ...Parser[]],
+    ) as unknown as Parser<{ [K in keyof T]: Output<T[K]> }>,
+    (value) =>
+      codecs.map((c, i) => c.encode(value[i])) as {
+        [K in keyof T]: Input<T[K]>;
+      },
+  );
+
+/**
+ * Returns a codec for unions. See `z.union`. A value is encoded with the first member whose encoding
+ * decodes back with that same member, so members that decode to the same type should be listed most specific first.
+ *
+ * @template T - The codecs of the members.
+ * @param {T} codecs - The codec of each member.
+ * @returns {Codec<Output<T[number]>, Input<T[number]>>} The codec.
+ * @throws {TypeError} When encoding a value that no member can encode.
+ */
+export const union = <T extends [Codec, ...Codec[]]>(
+  codecs: T,
+): Codec<Output<T[number]>, Input<T[number]>> =>
+  codec(
+    z.union(codecs.map((c) => c.decode) as [Parser, ...Parser[]]) as Parser<
+      Output<T[number]>
+    >,
+    (value) => {
+      for (const c of codecs) {
+        let encoded: unknown;
+        try {
+          encoded = c.encode(value);
+        } catch {
+          continue;
+        }
+        if (c.decode(encoded).isOk()) return encoded as Input<T[number]>;
+      }
+      throw new TypeError("No member of the union can encode the value");
+    },
+  );
@@ -0,0 +1,337 @@
+import { define, describe } from "./descriptor";
+import { isMultipleOf, isPlainObject } from "./guards";
+import { List } from "./list";
+import { None, Some } from "./option";
+import type { Parser } from "./parsing";
+import { Ok } from "./result";
+
+/**
+ * The state of the code generator: the values referenced by the generated code, and a counter for unique names.
+ */
+type Emitter = {
+  refs: unknown[];
+  names: number;
+};
+
+/**
+ * The code that parses a value, and the name of the variable that holds its output afterwards.
+ */
+type Emitted = {
+  code: string;
+  out: string;
+};
+
+const ref = (em: Emitter, value: unknown): string => {
+  em.refs.push(value);
+  return `r${em.refs.length - 1}`;
+};
+
+const name = (em: Emitter, prefix = "v"): string => `${prefix}${em.names++}`;
+
+/**
+ * Emits a call to a parser that is not compiled, for parsers that run user code or are recursive.
+ */
+const call = (
+  em: Emitter,
+  parser: Parser,
+  src: string,
+  fail: string,
+): Emitted => {
+  const res = name(em, "res");
+  const out = name(em);
+  return {
+    code: `const ${res} = ${ref(em, parser)}(${src}, opts);
+if (${res}.isErr()) ${fail}
+const ${out} = ${res}.unwrap();
+`,
+    out,
+  };
+};
+
+/**
+ * Emits code that parses the value of the expression `src` like `parser` does, and runs the `fail` statement
+ * where `parser` would return an error. The statement leaves the emitted code with `return` or `break`.
+ *
+ * @param em - The code generator.
+ * @param parser - The parser to compile.
+ * @param src - A variable that holds the value to parse.
+ * @param fail - The statement to run when the value is invalid.
+ * @returns The code, and the variable that holds the output.
+ */
+const emit = (
+  em: Emitter,
+  parser: Parser,
+  src: string,
+  fail: string,
+): Emitted => {
+  const desc = describe(parser);
+  const out = name(em);
+  switch (desc.kind) {
+    case "string": {
+      if (desc.format) return call(em, parser, src, fail);
+      let code = desc.coerce
+        ? `const ${out} = String(${src});\n`
+        : `const ${out} = ${src};\nif (typeof ${out} !== "string") ${fail}\n`;
+      for (const c of desc.constraints) {
+        if (c.name === "minLength") {
+          code += `if (${out}.length < ${c.params.value}) ${fail}\n`;
+        } else if (c.name === "maxLength") {
+          code += `if (${out}.length > ${c.params.value}) ${fail}\n`;
+        } else {
+          const pattern = ref(em, c.params.value);
+          code += `${pattern}.lastIndex = 0;\nif (!${pattern}.test(${out})) ${fail}\n`;
+        }
+      }
+      return { code, out };
+    }
+    case "number": {
+      let code = `const ${out} = ${desc.coerce ? `Number(${src})` : src};
+if (typeof ${out} !== "number" || !Number.isFinite(${out})) ${fail}
+`;
+      for (const c of desc.constraints) {
+        const value = () => ref(em, c.params.value);
+        const tests: { [name: string]: () => string } = {
+          int: () => `Number.isInteger(${out})`,
+          positive: () => `${out} > 0`,
+          min: () => `${out} >= ${value()}`,
+          max: () => `${out} <= ${value()}`,
+          multipleOf: () => `${ref(em, isMultipleOf)}(${out}, ${value()})`,
+        };
+        if (!tests[c.name]) return call(em, parser, src, fail);
+        code += `if (!(${tests[c.name]()})) ${fail}\n`;
+      }
+      return { code, out };
+    }
+    case "boolean":
+      return {
+        code: `const ${out} = ${src};\nif (typeof ${out} !== "boolean") ${fail}\n`,
+        out,
+      };
+    case "literal":
+      return {
+        code: `const ${out} = ${src};\nif (${out} !== ${ref(
+          em,
+          desc.value,
+        )}) ${fail}\n`,
+        out,
+      };
+    case "enums":
+      return {
+        code: `const ${out} = ${src};\nif (!${ref(
+          em,
+          desc.values,
+        )}.includes(${out})) ${fail}\n`,
+        out,
+      };
+    case "unknown":
+      return { code: `const ${out} = ${src};\n`, out };
+    case "optional":
+    case "maybe":
+    case "defaulted": {
+      const inner = emit(em, desc.parser, src, fail);
+      const nil =
+        desc.kind === "optional"
+          ? ref(em, None)
+          : desc.kind === "defaulted"
+          ? ref(em, desc.default)
+          : src;
+      const value =
+        desc.kind === "optional" ? `${ref(em, Some)}(${inner.out})` : inner.out;
+      return {
+        code: `let ${out};
+if (${src} === null || ${src} === undefined) {
+${out} = ${nil};
+} else {
+${inner.code}${out} = ${value};
+}
+`,
+        out,
+      };
+    }
+    case "array":
+    case "list": {
+      const arr = name(em);
+      const i = name(em, "i");
+      const item = name(em);
+      const inner = emit(em, desc.parser, item, fail);
+      let code = `if (!Array.isArray(${src})) ${fail}\n`;
+      for (const c of desc.constraints) {
+        const op = c.name === "minItems" ? "<" : ">";
+        code += `if (${src}.length ${op} ${c.params.value}) ${fail}\n`;
+      }
+      code += `const ${arr} = Array(${src}.length);
+for (let ${i} = 0; ${i} < ${arr}.length; ${i}++) {
+const ${item} = ${src}[${i}];
+${inner.code}${arr}[${i}] = ${inner.out};
+}
+`;
+      return desc.kind === "list"
+        ? {
+            code: `${code}const ${out} = ${ref(em, List)}.from(${arr});\n`,
+            out,
+          }
+        : { code, out: arr };
+    }
+    case "object": {
+      const { shape, unknownKeys, catchall, exact } = desc;
+      let code = `if (!${ref(em, isPlainObject)}(${src})) ${fail}
+const ${out} = Object.create(null);
+`;
+      for (const key in shape) {
+        const value = name(em);
+        const inner = emit(em, shape[key], value, fail);
+        const prop = JSON.stringify(key);
+        const present = exact
+          ? `${inner.out} !== undefined`
+          : `${inner.out} !== undefined || Object.prototype.hasOwnProperty.call(${src}, ${prop})`;
+        code += `const ${value} = ${src}[${prop}];
+${inner.code}if (${present}) ${out}[${prop}] = ${inner.out};
+`;
+      }
+      if (unknownKeys !== "strip") {
+        const key = name(em, "k");
+        const value = name(em);
+        const known = `Object.prototype.hasOwnProperty.call(${ref(
+          em,
+          shape,
+        )}, ${key})`;
+        const inner =
+          unknownKeys === "strict"
+            ? { code: `${fail}\n`, out: value }
+            : catchall
+            ? emit(em, catchall, value, fail)
+            : { code: "", out: value };
+        code += `for (const ${key} in ${src}) {
+if (${known}) continue;
+const ${value} = ${src}[${key}];
+${inner.code}${out}[${key}] = ${inner.out};
+}
+`;
+      }
+      return { code, out };
+    }
+    case "record": {
+      const key = name(em, "k");
+      const value = name(em);
+      const k = emit(em, desc.key, key, fail);
+      const v = emit(em, desc.value, value, fail);
+      return {
+        code: `if (!${ref(em, isPlainObject)}(${src})) ${fail}
+const ${out} = Object.create(null);
+for (const ${key} in ${src}) {
+const ${value} = ${src}[${key}];
+${k.code}${v.code}${out}[${k.out}] = ${v.out};
+}
+`,
+        out,
+      };
+    }
+    case "tuple": {
+      const { parsers, rest } = desc;
+      let code = `if (!Array.isArray(${src})) ${fail}\n`;
+      code += rest
+        ? `const ${out} = new Array(Math.max(${src}.length, ${parsers.length}));\n`
+        : `if (${src}.length > ${parsers.length}) ${fail}\nconst ${out} = new Array(${parsers.length});\n`;
+      parsers.forEach((p, index) => {
+        const item = name(em);
+        const inner = emit(em, p, item, fail);
+        code += `const ${item} = ${src}[${index}];
+${inner.code}${out}[${index}] = ${inner.out};
+`;
+      });
+      if (rest) {
+        const i = name(em, "i");
+        const item = name(em);
+        const inner = emit(em, rest, item, fail);
+        code += `for (let ${i} = ${parsers.length}; ${i} < ${out}.length; ${i}++) {
+const ${item} = ${src}[${i}];
+${inner.code}${out}[${i}] = ${inner.out};
+}
+`;
+      }
+      return { code, out };
+    }
+    case "union": {
+      const done = name(em, "union");
+      let code = `let ${out};\n${done}: {\n`;
+      for (const member of desc.parsers) {
+        const label = name(em, "member");
+        const inner = emit(em, member, src, `break ${label};`);
+        code += `${label}: {\n${inner.code}${out} = ${inner.out};\nbreak ${done};\n}\n`;
+      }
+      return { code: `${code}${fail}\n}\n`, out };
+    }
+    case "discriminatedUnion": {
+      const { key, branches } = desc;
+      const tag = name(em, "tag");
+      let code = `if (!${ref(em, isPlainObject)}(${src})) ${fail}
+const ${tag} = ${src}[${JSON.stringify(key)}];
+let ${out};
+switch (${tag}) {
+`;
+      for (const branch in branches) {
+        const inner = emit(em, branches[branch], src, fail);
+        code += `case ${JSON.stringify(branch)}: {
+${inner.code}${out} = Object.assign(Object.create(null), ${
+          inner.out
+        }, { [${JSON.stringify(key)}]: ${tag} });
+break;
+}
+`;
+      }
+      return { code: `${code}default:\n${fail}\n}\n`, out };
+    }
+    case "brand":
+      return emit(em, desc.parser, src, fail);
+    case "pipe": {
+      let code = "";
+      let value = src;
+      for (const p of desc.parsers) {
+        const inner = emit(em, p, value, fail);
+        code += inner.code;
+        value = inner.out;
+      }
+      return { code, out: value };
+    }
+    default:
+      return call(em, parser, src, fail);
+  }
+};
+
+/**
+ * Compiles a parser into a single function that returns the same results, for parsers on a hot path.
+ * Strings, numbers, booleans, literals, enums, optional values, arrays, lists, objects, records, tuples, unions,
+ * discriminated unions and pipelines are checked inline, without a `Result` for each nested value. Other parsers,
+ * such as refinements, transforms, string formats, dates and recursive parsers, are called as they are.
+ *
+ * Invalid input is parsed again by the original parser, so errors, their paths and the effect of the parse options
+ * are the same as without compiling. The compiled parser has the descriptor of the original one.
+ *
+ * The function is generated with `new Function`. Where this is not allowed, such as under a Content Security Policy
+ * without `unsafe-eval`, the original parser is returned.
+ *
+ * @template T - The type of the parsed value.
+ * @param {Parser<T>} parser - The parser to compile.
+ * @returns {Parser<T>} A parser that returns the same results as `parser`.
+ */
+export const compile = <T>(parser: Parser<T>): Parser<T> => {
+  const em: Emitter = { refs: [], names: 0 };
+  const fallback = ref(em, parser);
+  const ok = ref(em, Ok);
+  const { code, out } = emit(
+    em,
+    parser as Parser,
+    "input",
+    `return ${fallback}(input, opts);`,
+  );
+  try {
+    const refs = em.refs.map((_, i) => `const r${i} = r[${i}];\n`).join("");
+    const compiled = new Function(
+      "r",
+      `${refs}return function compiled(input, opts) {\n${code}return ${ok}(${out});\n};`,
+    )(em.refs) as Parser<T>;
+    return define(describe(parser), compiled);
+  } catch {
+    return parser;
+  }
+};
@@ -0,0 +1,286 @@
+import type { Parser, TypedArrayConstructor, UnknownKeys } from "./parsing";
+import type { Literal } from "./types";
+
+/**
+ * A constraint checked by a parser after the type of the input is known.
+ * @property {string} name - The machine-readable name of the constraint, such as `minLength`.
+ * @property {Object} params - The parameters of the constraint, such as `{ value: 3 }`.
+ */
+export type Constraint = {
+  name: string;
+  params: { [key: string]: unknown };
+};
+
+/**
+ * The formats of the string parsers, such as `z.email` and `z.uuid`.
+ */
+export type StringFormat =
+  | "email"
+  | "uuid"
+  | "url"
+  | "hostname"
+  | "ip"
+  | "cidr"
+  | "date"
+  | "time"
+  | "date-time"
+  | "duration"
+  | "ulid"
+  | "semver"
+  | "hex-color"
+  | "base64"
+  | "e164";
+
+/**
+ * The Descriptor type is a structured description of a parser built with the `z.*` functions.
+ * The `kind` property tells which function built the parser. Child parsers are kept as parsers so they can be called,
+ * and can be described in turn with `describe`.
+ * Parsers that were not built with `z.*` are described as `{ kind: "custom" }`.
+ * The `versions` of a string format are the UUID versions accepted by `z.uuid`, or the IP version accepted by `z.ip` and `z.cidr`.
+ */
+export type Descriptor =
+  | {
+      kind: "string";
+      coerce: boolean;
+      format?: StringFormat;
+      versions?: number[];
+      constraints: Constraint[];
+    }
+  | { kind: "number"; coerce: boolean; constraints: Constraint[] }
+  | { kind: "boolean" }
+  | { kind: "date"; coerce: boolean; constraints: Constraint[] }
+  | { kind: "literal"; value: Literal }
+  | { kind: "enums"; values: (string | number)[] }
+  | { kind: "unknown" }
+  | { kind: "optional"; parser: Parser }
+  | { kind: "maybe"; parser: Parser }
+  | { kind: "defaulted"; parser: Parser; default: unknown }
+  | { kind: "array"; parser: Parser; constraints: Constraint[] }
+  | { kind: "list"; parser: Parser; constraints: Constraint[] }
+  | {
+      kind: "object";
+      shape: { [key: string]: Parser };
+      unknownKeys: UnknownKeys;
+      catchall?: Parser;
+      exact: boolean;
+    }
+  | { kind: "record"; key: Parser; value: Parser }
+  | { kind: "mapOf"; key: Parser; value: Parser; coerce: boolean }
+  | { kind: "set"; parser: Parser; coerce: boolean }
+  | { kind: "bigint"; coerce: boolean }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  | { kind: "instanceOf"; ctor: abstract new (...args: any[]) => unknown }
+  | { kind: "typedArray"; ctor: TypedArrayConstructor; coerce: boolean }
+  | { kind: "tuple"; parsers: Parser[]; rest?: Parser }
+  | { kind: "union"; parsers: Parser[] }
+  | {
+      kind: "discriminatedUnion";
+      key: string;
+      branches: { [tag: string]: Parser };
+    }
+  | { kind: "intersection"; parsers: Parser[] }
+  | { kind: "chain"; parser: Parser }
+  | { kind: "map"; parser: Parser }
+  | { kind: "pipe"; parsers: Parser[] }
+  | { kind: "preprocess"; parser: Parser }
+  | { kind: "refine"; parser: Parser; constraint: Constraint }
+  | { kind: "brand"; parser: Parser; name: string }
+  | { kind: "lazy"; getter: () => Parser }
+  | { kind: "custom" };
+
+/**
+ * The Kind type is the union of every `kind` a descriptor can have.
+ */
+export type Kind = Descriptor["kind"];
+
+/**
+ * Picks the descriptor of a given kind.
+ * @template {Kind} K - The kind of descriptor to pick.
+ */
+export type DescriptorOf<K extends Kind> = Extract<Descriptor, { kind: K }>;
+
+const descriptors = new WeakMap<Parser<unknown, never>, Descriptor>();
+
+/**
+ * Attaches a descriptor to a parser. Used by the `z.*` functions for every parser they return.
+ *
+ * @param descriptor - The descriptor of the parser.
+ * @param parser - The parser to describe.
+ * @returns The same parser.
+ */
+export const define = <P extends Parser<unknown, never>>(
+  descriptor: Descriptor,
+  parser: P,
+): P => {
+  descriptors.set(parser, descriptor);
+  return parser;
+};
+
+/**
+ * Returns the descriptor of a parser.
+ *
+ * @param parser - The parser to describe.
+ * @returns The descriptor attached to the parser, or `{ kind: "custom" }` if it has none.
+ */
+export const describe = (parser: Parser<unknown, never>): Descriptor =>
+  descriptors.get(parser) ?? { kind: "custom" };
+
+/**
+ * Returns the direct child parsers of a parser, in declaration order.
+ *
+ * @param parser - The parser whose children to return.
+ * @returns An array of `[key, parser]` pairs. The key is the property name, tuple index or branch tag of the child,
+ * the role of the child (`"key"` or `"value"`) for records, and an empty string for wrapped parsers, items of arrays and sets,
+ * catchall parsers, rest parsers of tuples and the parsers of a pipeline.
+ */
+export const children = (
+  parser: Parser<unknown, never>,
+): [key: string, parser: Parser][] => {
+  const desc = describe(parser);
+  switch (desc.kind) {
+    case "optional":
+    case "maybe":
+    case "defaulted":
+    case "array":
+    case "list":
+    case "set":
+    case "chain":
+    case "map":
+    case "preprocess":
+    case "refine":
+    case "brand":
+      return [["", desc.parser]];
+    case "pipe":
+      return desc.parsers.map((p) => ["", p]);
+    case "object":
+      return desc.catchall
+        ? [...Object.entries(desc.shape), ["", desc.catchall]]
+        : Object.entries(desc.shape);
+    case "record":
+    case "mapOf":
+      return [
+        ["key", desc.key],
+        ["value", desc.value],
+      ];
+    case "tuple": {
+      const elements = desc.parsers.map((p, i): [string, Parser] => [
+        i.toString(),
+        p,
+      ]);
+      return desc.rest ? [...elements, ["", desc.rest]] : elements;
+    }
+    case "union":
+    case "intersection":
+      return desc.parsers.map((p, i) => [i.toString(), p]);
+    case "discriminatedUnion":
+      return Object.entries(desc.branches);
+    case "lazy":
+      return [["", desc.getter()]];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Returns the members of an intersection, with nested intersections flattened.
+ *
+ * @param parsers - The members of the intersection.
+ * @returns The flattened members.
+ */
+export const flattenIntersection = (parsers: Parser[]): Parser[] =>
+  parsers.flatMap((parser) => {
+    const desc = describe(parser);
+    return desc.kind === "intersection"
+      ? flattenIntersection(desc.parsers)
+      : [parser];
+  });
+
+/**
+ * Visits a parser and all of its descendants, depth first. A parser that is already being visited
+ * higher up in the tree is not visited again, so self-referencing parsers do not loop forever.
+ *
+ * @param parser - The parser to start from.
+ * @param visitor - A function called with the descriptor, the parser and the keys leading to it from the root
+ * (wrapped parsers do not add a key). Returning `false` skips the children of that parser.
+ */
+export const walk = (
+  parser: Parser<unknown, never>,
+  visitor: (
+    descriptor: Descriptor,
+    parser: Parser<unknown, never>,
+    path: string[],
+  ) => void | boolean,
+): void => {
+  const ancestors = new Set<Parser<unknown, never>>();
+  const visit = (p: Parser<unknown, never>, path: string[]) => {
+    if (ancestors.has(p)) return;
+    if (visitor(describe(p), p, path) === false) return;
+    ancestors.add(p);
+    for (const [key, child] of children(p)) {
+      visit(child, key ? [...path, key] : path);
+    }
+    ancestors.delete(p);
+  };
+  visit(parser, []);
+};
+
+/**
+ * Returns a short description of the values a parser accepts, such as `string` or `a | b`, used in error messages.
+ *
+ * @param parser - The parser to describe.
+ * @param seen - The parsers being described, around this one. A recursive parser is described as `unknown` where it recurses.
+ * @returns The description.
+ */
+export const expectedOf = (
+  parser: Parser<unknown, never>,
+  seen = new Set<Parser<unknown, never>>(),
+): string => {
+  if (seen.has(parser)) return "unknown";
+  // The set is copied rather than updated, so that each child only sees the parsers on the way to it, and not its siblings.
+  const ancestors = new Set(seen).add(parser);
+  const desc = describe(parser);
+  const of = (p: Parser<unknown, never>) => expectedOf(p, ancestors);
+  switch (desc.kind) {
+    case "string":
+      return desc.format ?? desc.kind;
+    case "literal":
+      return String(desc.value);
+    case "enums":
+      return desc.values.join(" | ");
+    case "optional":
+      return `${of(desc.parser)} | undefined`;
+    case "maybe":
+    case "defaulted":
+      return `${of(desc.parser)} | null | undefined`;
+    case "list":
+    case "tuple":
+      return "array";
+    case "record":
+    case "discriminatedUnion":
+      return "object";
+    case "mapOf":
+      return "map";
+    case "instanceOf":
+      return desc.ctor.name;
+    case "typedArray":
+      return desc.ctor.name.toLowerCase();
+    case "union":
+      return desc.parsers.map(of).join(" | ");
+    case "intersection":
+      return desc.parsers.map(of).join(" & ");
+    case "chain":
+    case "map":
+    case "preprocess":
+    case "refine":
+    case "brand":
+      return of(desc.parser);
+    case "pipe":
+      return of(desc.parsers[0]);
+    case "lazy":
+      return of(desc.getter());
+    case "custom":
+      return "unknown";
+    default:
+      return desc.kind;
+  }
+};
@@ -0,0 +1,221 @@
+import { describe } from "./descriptor";
+import {
+  AggregateParseError,
+  ParseError,
+  getErrorMap,
+  leafErrors,
+} from "./errors";
+import { formatError } from "./format";
+import { isArray, isString } from "./guards";
+import type { InferShape, ParseOptions, Parser, Shape } from "./parsing";
+import { object } from "./parsing";
+import type { Result } from "./result";
+import { raise } from "./util";
+
+/**
+ * A record of environment variables, such as `process.env`.
+ */
+export type EnvSource = { [name: string]: string | undefined };
+
+/**
+ * Options for `parseEnv` and `loadEnv`.
+ * @property {EnvSource} [env=process.env] - The variables to read.
+ * @property {string[] | RegExp} [secrets] - The names of the variables whose values must not appear in errors,
+ * or a pattern that matches them. Default: names containing `SECRET`, `TOKEN`, `PASSWORD`, `PRIVATE` or `KEY`.
+ * @property {string} [separator=","] - The separator of the items of list variables.
+ */
+export type EnvOptions = {
+  env?: EnvSource;
+  secrets?: string[] | RegExp;
+  separator?: string;
+};
+
+/**
+ * The EnvError type is thrown by `loadEnv` when variables are missing or invalid.
+ * Its message lists every variable that failed, and the values of secret variables are masked.
+ * @property {ParseError[]} errors - The error of each variable.
+ */
+export class EnvError extends Error {
+  constructor(public readonly errors: ParseError[]) {
+    super(
+      `Invalid environment variables, ${formatError(
+        new AggregateParseError(errors, "object", undefined),
+      )}`,
+    );
+  }
+}
+
+const SECRET_NAMES = /SECRET|TOKEN|PASSWORD|PRIVATE|KEY/i;
+const MASK = "********";
+const TRUE_VALUES = ["true", "1", "yes", "on"];
+const FALSE_VALUES = ["false", "0", "no", "off"];
+
+/**
+ * Masks the input of an error, and of the errors nested in it, such as the error of each member of a union.
+ *
+ * @param err - The error of a secret variable.
+ * @returns The same error, masked.
+ */
+const mask = (err: ParseError): ParseError => {
+  const maskNested = (value: unknown): unknown =>
+    value instanceof ParseError
+      ? mask(value)
+      : isArray(value)
+      ? value.map(maskNested)
+      : value;
+  if (err instanceof AggregateParseError) err.errors.forEach(mask);
+  return Object.assign(err, {
+    input: MASK,
+    params: Object.fromEntries(
+      Object.entries(err.params).map(([key, value]) => [
+        key,
+        maskNested(value),
+      ]),
+    ),
+  });
+};
+
+/**
+ * Returns a parser that gives the error map a masked copy of its errors, so that the messages of a secret variable
+ * do not contain its value. Without an error map, the default messages are kept, as they do not contain the input.
+ *
+ * @param parser - The parser of a secret variable.
+ * @returns A parser with the same output and errors.
+ */
+const maskMessages =
+  (parser: Parser<unknown, never>): Parser =>
+  (input, opts?: ParseOptions) =>
+    parser(input as never, {
+      ...opts,
+      errorMap: (err) =>
+        getErrorMap()?.(
+          mask(
+            Object.assign(Object.create(Object.getPrototypeOf(err)), err, {
+              message: err.message,
+            }),
+          ),
+        ) ?? err.message,
+    });
+
+/**
+ * Converts the string value of a variable to what the parser expects, where this can be told from its descriptor.
+ *
+ * @param value - The value of the variable.
+ * @param parser - The parser of the variable.
+ * @param separator - The separator of list items.
+ * @returns The converted value.
+ */
+const coerce = (
+  value: unknown,
+  parser: Parser<unknown, never>,
+  separator: string,
+): unknown => {
+  const desc = describe(parser);
+  if (!isString(value)) return value;
+  switch (desc.kind) {
+    case "optional":
+    case "maybe":
+    case "defaulted":
+    case "chain":
+    case "map":
+    case "preprocess":
+    case "refine":
+    case "brand":
+      return coerce(value, desc.parser, separator);
+    case "pipe":
+      return coerce(value, desc.parsers[0], separator);
+    case "lazy":
+      return coerce(value, desc.getter(), separator);
+    case "number":
+      return value.trim() !== "" && !isNaN(Number(value))
+        ? Number(value)
+        : value;
+    case "boolean":
+      if (TRUE_VALUES.includes(value.toLowerCase())) return true;
+      if (FALSE_VALUES.includes(value.toLowerCase())) return false;
+      return value;
+    case "enums":
+      return desc.values.includes(value) || !desc.values.includes(Number(value))
+        ? value
+        : Number(value);
+    case "array":
+    case "list":
+      return value
+        .split(separator)
+        .map((item) => item.trim())
+        .filter((item) => item !== "")
+        .map((item) => coerce(item, desc.parser, separator));
+    default:
+      return value;
+  }
+};
+
+/**
+ * Parses environment variables with the parsers of a shape. Variables are strings, so they are first converted
+ * to what each parser expects: numbers from numeric strings, booleans from `true`, `1`, `yes`, `on` and their opposites,
+ * numeric enum members from their string form, and arrays by splitting on the separator.
+ * Empty variables count as missing, so `z.defaulted` and `z.maybe` apply to them. Variables that are not in the shape are ignored.
+ * Every variable is checked, and the values of secret variables are masked in the errors, in the errors nested in them,
+ * and in what the error map set with `setErrorMap` is given to write their messages.
+ *
+ * @template S - The shape of the variables.
+ * @param {S} shape - The parser of each variable.
+ * @param {EnvOptions} [opts] - Optional configuration options.
+ * @returns {Result<InferShape<S>, ParseError>} An Ok result with the parsed variables, or an Err result with every error.
+ */
+export const parseEnv = <S extends Shape>(
+  shape: S,
+  opts: EnvOptions = {},
+): Result<InferShape<S>, ParseError> => {
+  const {
+    env = typeof process !== "undefined" ? process.env : {},
+    secrets = SECRET_NAMES,
+    separator = ",",
+  } = opts;
+  // Patterns are copied without the `g` and `y` flags, whose `test` would start from the end of the previous match.
+  const names = isArray(secrets)
+    ? secrets
+    : new RegExp(secrets.source, secrets.flags.replace(/[gy]/g, ""));
+  const isSecret = (name: string) =>
+    isArray(names) ? names.includes(name) : names.test(name);
+  const input: { [name: string]: unknown } = {};
+  const parsers: Shape = {};
+  for (const name in shape) {
+    const value = env[name];
+    input[name] =
+      value === undefined || value === ""
+        ? undefined
+        : coerce(value, shape[name], separator);
+    parsers[name] = isSecret(name) ? maskMessages(shape[name]) : shape[name];
+  }
+  return object(parsers as S)(input, { abortEarly: false }).mapErr((err) => {
+    const errors = leafErrors(err).map((e) =>
+      e.path.length > 0 && isSecret(e.path[0]) ? mask(e) : e,
+    );
+    const masked = Object.fromEntries(
+      Object.entries(input).map(([name, value]) => [
+        name,
+        isSecret(name) && value !== undefined ? MASK : value,
+      ]),
+    );
+    return new AggregateParseError(errors, "object", masked);
+  });
+};
+
+/**
+ * Parses environment variables like `parseEnv`, and throws if any of them is missing or invalid.
+ * Call it once when the program starts.
+ *
+ * @template S - The shape of the variables.
+ * @param {S} shape - The parser of each variable.
+ * @param {EnvOptions} [opts] - Optional configuration options.
+ * @returns {InferShape<S>} The parsed variables.
+ * @throws {EnvError} When variables are missing or invalid.
+ */
+export const loadEnv = <S extends Shape>(
+  shape: S,
+  opts?: EnvOptions,
+): InferShape<S> =>
+  parseEnv(shape, opts).unwrapOrElse((err) =>
+    raise(new EnvError(leafErrors(err))),
+  );
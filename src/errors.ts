@@ -0,0 +1,246 @@
+import type { ParseOptions } from "./parsing";
+import type { SourceLocation } from "./source";
+import { getTypeOf } from "./util";
+
+/**
+ * A stable, machine-readable code for the kind of a ParseError.
+ * - `invalid_type`: the input has the wrong type. Params: `expected`, `actual`.
+ * - `invalid_literal`: the input is not the expected constant. Params: `expected`.
+ * - `invalid_enum`: the input is not a member of an enum. Params: `options`.
+ * - `invalid_union`: the input matches no member of a union. Params: `errors`, the error of each member.
+ *   For the `oneOf` of a JSON Schema, also that it matches more than one. Params: `matches`, the index of each match.
+ * - `invalid_discriminator`: the tag of a discriminated union is unknown. Params: `key`, `options`.
+ * - `invalid_format`: a string is not in the expected format. Params: `format`.
+ * - `unrecognized_key`: a strict object has a key it does not allow. Params: `key`.
+ * - `circular_reference`: a lazy parser found the same object again while parsing it.
+ * - `constraint`: a value does not satisfy a constraint. See `ConstraintError`.
+ * - `aggregate`: several errors were found. See `AggregateParseError`. Params: `count`.
+ * - `custom`: an error created outside of this library.
+ */
+export type ErrorCode =
+  | "invalid_type"
+  | "invalid_literal"
+  | "invalid_enum"
+  | "invalid_union"
+  | "invalid_discriminator"
+  | "invalid_format"
+  | "unrecognized_key"
+  | "circular_reference"
+  | "constraint"
+  | "aggregate"
+  | "custom";
+
+/**
+ * The ParserError type represents an error that can occur during parsing.
+ * @typedef {Object} ParserError
+ * @property {string} actual - The actual type of the input.
+ * @property {string} expected - The expected type of the input.
+ * @property {unknown} input - The input value that caused the error.
+ * @property {string} message - A message describing the error.
+ * @property {string[]} path - An array representing the path to the value that caused the error.
+ * @property {ErrorCode} code - The kind of the error.
+ * @property {Object} params - Details of the error, which depend on its code.
+ * @property {SourceLocation} [location] - The part of the JSON text the error is about, set by `parseJsonWithLocations`.
+ */
+export class ParseError extends Error {
+  declare location?: SourceLocation;
+
+  constructor(
+    message: string,
+    public readonly expected: string,
+    public readonly actual: string,
+    public readonly input: unknown,
+    public readonly path: string[] = [],
+    public readonly code: ErrorCode = "custom",
+    public readonly params: { [key: string]: unknown } = {},
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The AggregateParseError type holds every error found while parsing with `abortEarly: false`.
+ * Each error in `errors` is a leaf error whose `path` is relative to the root of the parsed value.
+ * @typedef {Object} AggregateParseError
+ * @property {ParseError[]} errors - The errors that were found.
+ */
+export class AggregateParseError extends ParseError {
+  constructor(
+    public readonly errors: ParseError[],
+    expected: string,
+    input: unknown,
+    path: string[] = [],
+  ) {
+    super(
+      `Found ${errors.length} error${errors.length === 1 ? "" : "s"}`,
+      expected,
+      getTypeOf(input),
+      input,
+      path,
+      "aggregate",
+      { count: errors.length },
+    );
+  }
+}
+
+/**
+ * The ConstraintError type is a ParseError for a value of the right type that does not satisfy a constraint,
+ * such as a minimum length or a custom refinement.
+ * Its code is `constraint`.
+ * @typedef {Object} ConstraintError
+ * @property {string} constraint - The machine-readable name of the constraint, such as `minLength`.
+ * @property {Object} params - The parameters of the constraint, such as `{ value: 3 }`.
+ */
+export class ConstraintError extends ParseError {
+  constructor(
+    message: string,
+    public readonly constraint: string,
+    params: { [key: string]: unknown },
+    input: unknown,
+    path: string[] = [],
+  ) {
+    super(
+      message,
+      constraint,
+      getTypeOf(input),
+      input,
+      path,
+      "constraint",
+      params,
+    );
+  }
+}
+
+/**
+ * An ErrorMap returns the message of an error, for example in another language.
+ * It is called with every error a parser creates, before the error is returned to the parent parser,
+ * so the `path` of the error is not known yet. Returning `undefined` keeps the default message.
+ * @typedef {function(ParseError): (string|undefined)} ErrorMap
+ */
+export type ErrorMap = (error: ParseError) => string | undefined;
+
+let globalErrorMap: ErrorMap | undefined;
+
+/**
+ * Sets the error map used by every parser. An error map passed in the parse options takes precedence over it.
+ *
+ * @param {ErrorMap} [map] - The error map, or `undefined` to restore the default messages.
+ */
+export const setErrorMap = (map: ErrorMap | undefined): void => {
+  globalErrorMap = map;
+};
+
+/**
+ * Returns the error map set with `setErrorMap`.
+ *
+ * @returns {ErrorMap | undefined} The global error map, if any.
+ */
+export const getErrorMap = (): ErrorMap | undefined => globalErrorMap;
+
+/**
+ * Replaces the message of an error with the one returned by the error map of the parse options,
+ * or else by the global error map.
+ *
+ * @param {ParseError} err - The error to update.
+ * @param {ParseOptions} [opts] - The options passed to the parser.
+ * @returns {ParseError} The same error.
+ */
+export const localize = <E extends ParseError>(
+  err: E,
+  opts?: ParseOptions,
+): E => {
+  const message = opts?.errorMap?.(err) ?? globalErrorMap?.(err);
+  if (message !== undefined) err.message = message;
+  return err;
+};
+
+/**
+ * Returns whether a parser should stop at the first error it finds.
+ *
+ * @param {ParseOptions} [opts] - The options passed to the parser.
+ * @returns {boolean} `true` unless `abortEarly` is explicitly set to `false`.
+ */
+export const shouldAbort = (opts?: ParseOptions): boolean =>
+  opts?.abortEarly !== false;
+
+/**
+ * Prepends a path segment to an error. For aggregate errors the segment is also prepended to every leaf error.
+ *
+ * @param {ParseError} err - The error to update.
+ * @param {string} segment - The path segment to prepend.
+ * @returns {ParseError} The same error.
+ */
+export const prependPath = (err: ParseError, segment: string): ParseError => {
+  err.path.unshift(segment);
+  if (err instanceof AggregateParseError) {
+    for (const e of err.errors) e.path.unshift(segment);
+  }
+  return err;
+};
+
+/**
+ * Returns the leaf errors of an error, which is the error itself unless it is an aggregate.
+ *
+ * @param {ParseError} err - The error to flatten.
+ * @returns {ParseError[]} The leaf errors.
+ */
+export const leafErrors = (err: ParseError): ParseError[] =>
+  err instanceof AggregateParseError ? err.errors : [err];
+
+/**
+ * Creates a ParserError object for a given expected type and input value.
+
+ * @param {string} expected - The expected type of the input value.
+ * @param {unknown} input - The input value that caused the error.
+ * @param {ParseOptions} [opts] - The options passed to the parser, used to localize the message.
+ * @param {ErrorCode} [code="invalid_type"] - The code of the error.
+ * @param {Object} [params] - The params of the error. Default: `{ expected, actual }`.
+ * @returns {ParseError} A new ParserError object.
+ */
+export const typeErr = (
+  expected: string,
+  input: unknown,
+  opts?: ParseOptions,
+  code: ErrorCode = "invalid_type",
+  params?: { [key: string]: unknown },
+): ParseError => {
+  const actual = getTypeOf(input);
+  return localize(
+    new ParseError(
+      `Type '${actual}' is not assignable to type '${expected}'`,
+      expected,
+      actual,
+      input,
+      [],
+      code,
+      params ?? { expected, actual },
+    ),
+    opts,
+  );
+};
+
+/**
+ * Creates a ParserError object for a key that is not allowed by a strict object parser.
+ *
+ * @param {string} key - The unknown key.
+ * @param {unknown} input - The value of the unknown key.
+ * @param {ParseOptions} [opts] - The options passed to the parser, used to localize the message.
+ * @returns {ParseError} A new ParserError object.
+ */
+export const unknownKeyErr = (
+  key: string,
+  input: unknown,
+  opts?: ParseOptions,
+): ParseError =>
+  localize(
+    new ParseError(
+      `Unknown key '${key}'`,
+      "never",
+      getTypeOf(input),
+      input,
+      [],
+      "unrecognized_key",
+      { key },
+    ),
+    opts,
+  );
@@ -0,0 +1,236 @@
+import { describe } from "./descriptor";
+import type { ParseError } from "./errors";
+import { leafErrors } from "./errors";
+import { isArray, isObject, isPlainObject, isString } from "./guards";
+import type { ParseOptions, Parser } from "./parsing";
+import type { Result } from "./result";
+import type { PlainObject } from "./types";
+
+/**
+ * The entries of a form, such as a `FormData` or a `URLSearchParams` object.
+ */
+export type FormSource = Iterable<[string, unknown]>;
+
+/**
+ * The nested data built from a form, together with the name of the field each value came from.
+ */
+type Collected = {
+  data: PlainObject;
+  fields: Map<string, string>;
+};
+
+const TRUE_VALUES = ["on", "true", "1", "yes"];
+const FALSE_VALUES = ["off", "false", "0", "no"];
+// Keys that could reach the prototype of an object or array, whose fields are left out.
+const UNSAFE_KEYS = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Splits a field name into keys. Dots and brackets both start a new key, and empty brackets append to an array,
+ * so `items[0].name` gives `["items", "0", "name"]` and `tags[]` gives `["tags", ""]`.
+ *
+ * @param name - The name of the field.
+ * @returns The keys.
+ */
+const splitName = (name: string): string[] =>
+  Array.from(name.matchAll(/([^.[\]]+)|\[([^\]]*)\]/g), (m) => m[1] ?? m[2]);
+
+const isIndex = (key: string): boolean => key === "" || /^\d+$/.test(key);
+
+const hasOwn = (obj: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(obj, key);
+
+/**
+ * Returns whether a form value counts as missing: an empty string, or a file input where no file was chosen.
+ */
+const isEmpty = (value: unknown): boolean =>
+  value === "" ||
+  (isObject(value) &&
+    value !== null &&
+    (value as { size?: unknown }).size === 0 &&
+    (value as { name?: unknown }).name === "");
+
+/**
+ * Builds nested data from the entries of a form.
+ *
+ * @param form - The entries of the form.
+ * @returns The data, and the field name of each value keyed by its dot-separated path.
+ */
+const collect = (form: FormSource): Collected => {
+  const data: PlainObject = Object.create(null);
+  const fields = new Map<string, string>();
+  const repeated = new WeakSet<unknown[]>();
+  for (const [name, value] of form) {
+    if (isEmpty(value)) continue;
+    const keys = splitName(name);
+    if (keys.length === 0 || keys.some((key) => UNSAFE_KEYS.includes(key))) {
+      continue;
+    }
+    const path: string[] = [];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let container: any = data;
+    for (let i = 0; i < keys.length; i++) {
+      let key = keys[i];
+      if (key === "") {
+        if (!isArray(container)) break;
+        key = container.length.toString();
+      }
+      if (isArray(container) && !isIndex(key)) break;
+      path.push(key);
+      if (i === keys.length - 1) {
+        const existing = hasOwn(container, key) ? container[key] : undefined;
+        if (existing === undefined) {
+          container[key] = value;
+        } else if (isArray(existing) && repeated.has(existing)) {
+          path.push(existing.length.toString());
+          existing.push(value);
+        } else if (!isObject(existing)) {
+          const arr = [existing, value];
+          repeated.add(arr);
+          fields.set(`${path.join(".")}.0`, fields.get(path.join(".")) ?? name);
+          container[key] = arr;
+          path.push("1");
+        } else {
+          break;
+        }
+        fields.set(path.join("."), name);
+        break;
+      }
+      if (!hasOwn(container, key)) {
+        container[key] = isIndex(keys[i + 1]) ? [] : Object.create(null);
+      }
+      container = container[key];
+      if (!isObject(container) || container === null) break;
+    }
+  }
+  return { data, fields };
+};
+
+/**
+ * Converts the values of the form to what the parser expects, where this can be told from its descriptor:
+ * booleans are read from checkbox values and are `false` when missing, numbers are read from numeric strings,
+ * and array fields are always arrays.
+ *
+ * @param value - The value built from the form.
+ * @param parser - The parser that will parse the value.
+ * @returns The converted value.
+ */
+const coerce = (value: unknown, parser: Parser<unknown, never>): unknown => {
+  const desc = describe(parser);
+  switch (desc.kind) {
+    case "optional":
+    case "maybe":
+    case "defaulted":
+      return value === undefined ? value : coerce(value, desc.parser);
+    case "chain":
+    case "map":
+    case "preprocess":
+    case "refine":
+    case "brand":
+      return coerce(value, desc.parser);
+    case "pipe":
+      return coerce(value, desc.parsers[0]);
+    case "lazy":
+      return coerce(value, desc.getter());
+    case "boolean":
+      if (value === undefined) return false;
+      if (isString(value) && TRUE_VALUES.includes(value.toLowerCase())) {
+        return true;
+      }
+      if (isString(value) && FALSE_VALUES.includes(value.toLowerCase())) {
+        return false;
+      }
+      return value;
+    case "number":
+      return isString(value) && value.trim() !== "" && !isNaN(Number(value))
+        ? Number(value)
+        : value;
+    case "array":
+    case "list": {
+      if (value === undefined) return [];
+      const items = isArray(value) ? Array.from(value) : [value];
+      return items.map((item) => coerce(item, desc.parser));
+    }
+    case "tuple": {
+      if (!isArray(value)) return value;
+      const { parsers, rest } = desc;
+      return rest
+        ? Array.from(value, (item, i) =>
+            coerce(item, parsers[i] ?? rest),
+          ).concat(parsers.slice(value.length).map((p) => coerce(undefined, p)))
+        : parsers.map((p, i) => coerce(value[i], p));
+    }
+    case "object": {
+      if (!isPlainObject(value)) return value;
+      const obj: PlainObject = Object.assign(Object.create(null), value);
+      for (const key in desc.shape) {
+        const v = coerce(value[key], desc.shape[key]);
+        if (v !== undefined) obj[key] = v;
+      }
+      return obj;
+    }
+    case "record": {
+      if (!isPlainObject(value)) return value;
+      const obj: PlainObject = Object.create(null);
+      for (const key in value) obj[key] = coerce(value[key], desc.value);
+      return obj;
+    }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Returns the name of the form field at a path: the name it was submitted with, or else a name in bracket notation.
+ *
+ * @param path - The path of the value.
+ * @param fields - The field names of the submitted values.
+ * @returns The field name.
+ */
+const fieldName = (path: string[], fields: Map<string, string>): string =>
+  fields.get(path.join(".")) ??
+  path
+    .map((key, i) =>
+      i === 0 ? key : /^\d+$/.test(key) ? `[${key}]` : `.${key}`,
+    )
+    .join("");
+
+/**
+ * Builds nested data from the entries of a form, such as a `FormData` or a `URLSearchParams` object.
+ * Field names are split on dots and brackets (`items[0].name`), empty brackets append to an array (`tags[]`),
+ * keys that are repeated are collected into an array, and empty strings and empty file inputs are left out.
+ * Fields with a `__proto__`, `constructor` or `prototype` key are left out too, so that a form cannot change prototypes.
+ * The values are not converted: they are strings, or files for multipart forms.
+ *
+ * @param form - The entries of the form.
+ * @returns The nested data.
+ */
+export const formToObject = (form: FormSource): PlainObject =>
+  collect(form).data;
+
+/**
+ * Parses the entries of a form, such as a `FormData` or a `URLSearchParams` object, with an object parser.
+ * The form is turned into nested data with `formToObject`, and its values are then converted to what the parser expects:
+ * boolean fields are read from checkbox values (`on`, `true`, `1`, `yes` and their opposites) and are `false` when
+ * missing, number fields are read from numeric strings, and array fields are arrays even if they were sent once or not at all.
+ * The `path` of every error holds a single element, the name of the form field the error belongs to.
+ *
+ * @template T - The type of the parsed value.
+ * @param form - The entries of the form.
+ * @param parser - The parser to run on the nested data.
+ * @param opts - The options passed to the parser.
+ * @returns The result of the parser.
+ */
+export const parseForm = <T>(
+  form: FormSource,
+  parser: Parser<T>,
+  opts?: ParseOptions,
+): Result<T, ParseError> => {
+  const { data, fields } = collect(form);
+  return parser(coerce(data, parser), opts).mapErr((err) => {
+    for (const e of leafErrors(err)) {
+      if (e.path.length > 0)
+        e.path.splice(0, e.path.length, fieldName(e.path, fields));
+    }
+    return err;
+  });
+};
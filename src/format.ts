@@ -0,0 +1,153 @@
+import type { ErrorCode, ParseError } from "./errors";
+import { leafErrors } from "./errors";
+
+/**
+ * A map from the path of a field, with its keys joined by dots, to the messages of its errors.
+ * Dots and backslashes in keys are escaped with a backslash, so `["a.b"]` is `a\.b` and `["a", "b"]` is `a.b`.
+ * Errors of the root value are listed under the empty string.
+ */
+export type FlatErrors = { [path: string]: string[] };
+
+/**
+ * A tree of error messages that mirrors the shape of the input.
+ * @property {string[]} errors - The messages of the errors of this value.
+ * @property {Object} children - The error trees of the properties or items of this value that have errors.
+ */
+export type ErrorTree = {
+  errors: string[];
+  children: { [key: string]: ErrorTree };
+};
+
+/**
+ * An RFC 7807 problem details object, to be sent with the `application/problem+json` content type.
+ * The `errors` member lists every error, with the location of the field as a JSON Pointer.
+ */
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  errors: { pointer: string; code: ErrorCode; message: string }[];
+};
+
+/**
+ * Options for `toProblemDetails`.
+ * @property {string} [type="about:blank"] - A URI reference that identifies the problem type.
+ * @property {string} [title="Unprocessable Entity"] - A short summary of the problem type.
+ * @property {number} [status=422] - The HTTP status code.
+ * @property {string} [detail] - An explanation of this occurrence of the problem. Default: the message of the error.
+ * @property {string} [instance] - A URI reference that identifies this occurrence of the problem.
+ */
+export type ProblemDetailsOptions = {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+};
+
+/**
+ * Returns the messages of every leaf error of an error, grouped by the path of the field they belong to.
+ *
+ * @param err - A ParseError or an AggregateParseError.
+ * @returns A map from dot-separated paths, with dots and backslashes in keys escaped, to messages.
+ */
+export const flattenError = (err: ParseError): FlatErrors => {
+  const flat: FlatErrors = {};
+  for (const e of leafErrors(err)) {
+    const key = e.path.map((k) => k.replace(/[\\.]/g, "\\$&")).join(".");
+    (flat[key] ??= []).push(e.message);
+  }
+  return flat;
+};
+
+/**
+ * Returns the messages of every leaf error of an error as a tree that mirrors the shape of the input.
+ *
+ * @param err - A ParseError or an AggregateParseError.
+ * @returns The root of the tree.
+ */
+export const errorTree = (err: ParseError): ErrorTree => {
+  const root: ErrorTree = { errors: [], children: {} };
+  for (const e of leafErrors(err)) {
+    let node = root;
+    for (const key of e.path) {
+      node = node.children[key] ??= { errors: [], children: {} };
+    }
+    node.errors.push(e.message);
+  }
+  return root;
+};
+
+/**
+ * Returns a human-readable report of an error, with one line for every leaf error, for example:
+ *
+ * ```
+ * 2 errors:
+ *   at name: String must contain at least 3 characters
+ *   at tags.1: Type 'number' is not assignable to type 'string'
+ * ```
+ *
+ * Errors returned by `parseJsonWithLocations` also tell the line and column of the value, as in `at name (line 2, column 11)`.
+ *
+ * @param err - A ParseError or an AggregateParseError.
+ * @returns The report.
+ */
+export const formatError = (err: ParseError): string => {
+  const errors = leafErrors(err);
+  const lines = errors.map((e) => {
+    const at = e.path.length > 0 ? e.path.join(".") : "root";
+    const location = e.location
+      ? ` (line ${e.location.start.line}, column ${e.location.start.column})`
+      : "";
+    return `  at ${at}${location}: ${e.message}`;
+  });
+  return [
+    `${errors.length} error${errors.length === 1 ? "" : "s"}:`,
+    ...lines,
+  ].join("\n");
+};
+
+/**
+ * Returns a JSON Pointer (RFC 6901) to the value at a path.
+ *
+ * @param path - The keys leading to the value.
+ * @returns The pointer, which is the empty string for the root value.
+ */
+const toPointer = (path: string[]): string =>
+  path
+    .map((key) => `/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`)
+    .join("");
+
+/**
+ * Returns an RFC 7807 problem details body for an error, with every leaf error listed in the `errors` member.
+ *
+ * @param err - A ParseError or an AggregateParseError.
+ * @param opts - Optional members of the problem details object.
+ * @returns The problem details object, ready to be serialized with `JSON.stringify`.
+ */
+export const toProblemDetails = (
+  err: ParseError,
+  opts: ProblemDetailsOptions = {},
+): ProblemDetails => {
+  const {
+    type = "about:blank",
+    title = "Unprocessable Entity",
+    status = 422,
+    detail = err.message,
+    instance,
+  } = opts;
+  return {
+    type,
+    title,
+    status,
+    detail,
+    ...(instance !== undefined && { instance }),
+    errors: leafErrors(err).map((e) => ({
+      pointer: toPointer(e.path),
+      code: e.code,
+      message: e.message,
+    })),
+  };
+};
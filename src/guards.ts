@@ -249,6 +249,32 @@ export const isNegative = (num: number): boolean => !isPositive(num);
  */
 export const isInteger = (num: number): boolean => Number.isInteger(num);
 
+/**
+ * Returns the number of decimal places of a number, as it is written by `String`, such as 1 for `0.1` and 7 for `1e-7`.
+ */
+const decimalPlaces = (num: number): number => {
+  const [mantissa, exponent = "0"] = String(num).split("e");
+  const fraction = mantissa.split(".")[1]?.length ?? 0;
+  return Math.max(0, fraction - Number(exponent));
+};
+
+/**
+ * Checks if a number is a multiple of another. Both numbers are scaled to integers by their decimal places first,
+ * so that decimal steps work despite floating-point rounding: `0.3` is a multiple of `0.1`.
+ *
+ * @param num The number to check.
+ * @param step The number `num` must be a multiple of.
+ * @returns Whether `num` is a multiple of `step` or not.
+ */
+export const isMultipleOf = (num: number, step: number): boolean => {
+  const scale = 10 ** Math.max(decimalPlaces(num), decimalPlaces(step));
+  const scaledNum = Math.round(num * scale);
+  const scaledStep = Math.round(step * scale);
+  return Number.isSafeInteger(scaledNum) && Number.isSafeInteger(scaledStep)
+    ? scaledNum % scaledStep === 0
+    : isInteger(num / step);
+};
+
 /**
  * Checks if a number is a floating-point number.
  *
@@ -283,11 +309,210 @@ export const isEmail = (str: string): boolean =>
   str.length <= 320 && EMAIL_REGEX.test(str);
 
 const UUID_REGEX =
-  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  /^[0-9a-f]{8}-[0-9a-f]{4}-([1-8])[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
 /**
- * Checks if a string is a valid uuid.
- * @param num The string to check.
+ * A version of the UUID format, from 1 to 8.
+ */
+export type UUIDVersion = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+/**
+ * Checks if a string is a valid uuid, with the RFC 9562 variant.
+ * @param uuid The string to check.
+ * @param version The versions to accept. Default: version 4 only.
  * @returns Whether the string is a uuid or not.
  */
-export const isUUID = (uuid: string): boolean => UUID_REGEX.test(uuid);
+export const isUUID = (
+  uuid: string,
+  version?: UUIDVersion | UUIDVersion[],
+): boolean => {
+  const match = UUID_REGEX.exec(uuid);
+  if (!match) return false;
+  const versions = isArray(version) ? version : [version ?? 4];
+  return versions.includes(Number(match[1]) as UUIDVersion);
+};
+
+/**
+ * Checks if a string is a valid absolute URL, such as `https://example.com/path`.
+ * @param str The string to check.
+ * @returns Whether the string is a URL or not.
+ */
+export const isURL = (str: string): boolean => {
+  try {
+    new URL(str);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const LABEL_REGEX = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+/**
+ * Checks if a string is a valid hostname (RFC 1123), such as `example.com`.
+ * @param str The string to check.
+ * @returns Whether the string is a hostname or not.
+ */
+export const isHostname = (str: string): boolean =>
+  str.length <= 253 && str.split(".").every((label) => LABEL_REGEX.test(label));
+
+const IPV4_REGEX =
+  /^(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+
+/**
+ * Checks if a string is a valid IPv4 address in dotted decimal notation, such as `192.168.0.1`.
+ * @param str The string to check.
+ * @returns Whether the string is an IPv4 address or not.
+ */
+export const isIPv4 = (str: string): boolean => IPV4_REGEX.test(str);
+
+/**
+ * Checks if a string is a valid IPv6 address, such as `2001:db8::1` or `::ffff:192.168.0.1`.
+ * @param str The string to check.
+ * @returns Whether the string is an IPv6 address or not.
+ */
+export const isIPv6 = (str: string): boolean => {
+  const parts = str.split("::");
+  if (parts.length > 2) return false;
+  const groups = parts.flatMap((part) => (part === "" ? [] : part.split(":")));
+  let count = groups.length;
+  const last = groups[groups.length - 1];
+  if (last?.includes(".")) {
+    if (!isIPv4(last)) return false;
+    groups.pop();
+    count++;
+  }
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return false;
+  return parts.length === 2 ? count < 8 : count === 8;
+};
+
+/**
+ * Checks if a string is a valid IP address.
+ * @param str The string to check.
+ * @param version The version to accept. Default: both.
+ * @returns Whether the string is an IP address or not.
+ */
+export const isIP = (str: string, version?: 4 | 6): boolean =>
+  (version !== 6 && isIPv4(str)) || (version !== 4 && isIPv6(str));
+
+/**
+ * Checks if a string is a valid CIDR block, such as `10.0.0.0/8` or `2001:db8::/32`.
+ * @param str The string to check.
+ * @param version The IP version to accept. Default: both.
+ * @returns Whether the string is a CIDR block or not.
+ */
+export const isCIDR = (str: string, version?: 4 | 6): boolean => {
+  const [ip, prefix, ...rest] = str.split("/");
+  if (rest.length > 0 || !/^(?:0|[1-9]\d{0,2})$/.test(prefix ?? "")) {
+    return false;
+  }
+  const bits = Number(prefix);
+  if (version !== 6 && isIPv4(ip)) return bits <= 32;
+  if (version !== 4 && isIPv6(ip)) return bits <= 128;
+  return false;
+};
+
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Checks if a string is a valid ISO 8601 calendar date, such as `2024-02-29`.
+ * @param str The string to check.
+ * @returns Whether the string is an ISO 8601 date or not.
+ */
+export const isISODate = (str: string): boolean => {
+  const match = ISO_DATE_REGEX.exec(str);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  // `Date.UTC` maps the years 0 to 99 to 1900 to 1999, so the year is set on its own.
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+};
+
+const ISO_TIME_REGEX =
+  /^(?:[01]\d|2[0-3]):[0-5]\d(?::[0-5]\d(?:\.\d+)?)?(?:Z|[+-](?:[01]\d|2[0-3]):?[0-5]\d)?$/i;
+
+/**
+ * Checks if a string is a valid ISO 8601 time of day, with optional seconds, fraction and offset, such as `13:45:30.5Z`.
+ * @param str The string to check.
+ * @returns Whether the string is an ISO 8601 time or not.
+ */
+export const isISOTime = (str: string): boolean => ISO_TIME_REGEX.test(str);
+
+/**
+ * Checks if a string is a valid ISO 8601 date and time, such as `2024-02-29T13:45:30Z`.
+ * @param str The string to check.
+ * @returns Whether the string is an ISO 8601 date and time or not.
+ */
+export const isISODateTime = (str: string): boolean => {
+  const [date, time, ...rest] = str.split(/t/i);
+  return (
+    rest.length === 0 &&
+    time !== undefined &&
+    isISODate(date) &&
+    isISOTime(time)
+  );
+};
+
+const ISO_DURATION_REGEX =
+  /^P(?!$)(?:\d+(?:[.,]\d+)?Y)?(?:\d+(?:[.,]\d+)?M)?(?:\d+(?:[.,]\d+)?W)?(?:\d+(?:[.,]\d+)?D)?(?:T(?=\d)(?:\d+(?:[.,]\d+)?H)?(?:\d+(?:[.,]\d+)?M)?(?:\d+(?:[.,]\d+)?S)?)?$/;
+
+/**
+ * Checks if a string is a valid ISO 8601 duration, such as `P1Y2M10DT2H30M`.
+ * @param str The string to check.
+ * @returns Whether the string is an ISO 8601 duration or not.
+ */
+export const isISODuration = (str: string): boolean =>
+  ISO_DURATION_REGEX.test(str);
+
+const ULID_REGEX = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i;
+
+/**
+ * Checks if a string is a valid ULID, such as `01ARZ3NDEKTSV4RRFFQ69G5FAV`.
+ * @param str The string to check.
+ * @returns Whether the string is a ULID or not.
+ */
+export const isULID = (str: string): boolean => ULID_REGEX.test(str);
+
+const SEMVER_REGEX =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Checks if a string is a valid semantic version (SemVer 2.0.0), such as `1.2.3-beta.1+build.5`.
+ * @param str The string to check.
+ * @returns Whether the string is a semantic version or not.
+ */
+export const isSemVer = (str: string): boolean => SEMVER_REGEX.test(str);
+
+const HEX_COLOR_REGEX = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Checks if a string is a valid hex color with 3, 4, 6 or 8 digits, such as `#ff8800`.
+ * @param str The string to check.
+ * @returns Whether the string is a hex color or not.
+ */
+export const isHexColor = (str: string): boolean => HEX_COLOR_REGEX.test(str);
+
+const BASE64_REGEX =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/**
+ * Checks if a string is valid padded base64. The empty string is not.
+ * @param str The string to check.
+ * @returns Whether the string is base64 or not.
+ */
+export const isBase64 = (str: string): boolean =>
+  str !== "" && BASE64_REGEX.test(str);
+
+const E164_REGEX = /^\+[1-9]\d{1,14}$/;
+
+/**
+ * Checks if a string is a valid E.164 phone number, such as `+14155552671`.
+ * @param str The string to check.
+ * @returns Whether the string is an E.164 phone number or not.
+ */
+export const isE164 = (str: string): boolean => E164_REGEX.test(str);
@@ -1,6 +1,16 @@
+export * as za from "./async";
+export * from "./arbitrary";
+export * as zc from "./codec";
+export * from "./compile";
+export * from "./env";
+export * from "./form";
+export * from "./format";
 export * from "./guards";
+export * from "./json-schema";
 export * from "./list";
 export * from "./option";
 export * as z from "./parsing";
 export * from "./result";
+export * from "./source";
+export * from "./stream";
 export * from "./util";
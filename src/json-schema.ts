@@ -0,0 +1,1038 @@
+import type { Constraint, Descriptor, DescriptorOf, Kind } from "./descriptor";
+import {
+  children,
+  define,
+  describe,
+  expectedOf,
+  flattenIntersection,
+} from "./descriptor";
+import { ParseError, localize, typeErr } from "./errors";
+import type { UUIDVersion } from "./guards";
+import {
+  isArray,
+  isBoolean,
+  isNumber,
+  isPlainObject,
+  isString,
+} from "./guards";
+import type { Parser } from "./parsing";
+import * as z from "./parsing";
+import type { Result } from "./result";
+import { Err, Ok } from "./result";
+import type { Literal, PlainObject } from "./types";
+import { getTypeOf } from "./util";
+
+/**
+ * A JSON Schema (draft 2020-12) document or subschema.
+ * The common keywords are typed, any other keyword is allowed as `unknown`.
+ */
+export type JsonSchema = {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: { [name: string]: JsonSchema };
+  $comment?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  format?: string;
+  const?: unknown;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  multipleOf?: number;
+  items?: boolean | JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+};
+
+/**
+ * The primitive types of JSON Schema.
+ */
+export type JsonSchemaType =
+  | "array"
+  | "boolean"
+  | "integer"
+  | "null"
+  | "number"
+  | "object"
+  | "string";
+
+/**
+ * A warning about a parser that could not be represented exactly in JSON Schema.
+ * @property {string[]} path - The keys leading to the parser from the root parser.
+ * @property {Kind} kind - The kind of the parser.
+ * @property {string} message - A message describing what was lost.
+ */
+export type JsonSchemaWarning = {
+  path: string[];
+  kind: Kind;
+  message: string;
+};
+
+/**
+ * Options for `toJsonSchema`.
+ * @property {Object} [definitions] - Parsers to always emit in `$defs` under the given name.
+ * Parsers that are used more than once or that reference themselves are added to `$defs` automatically.
+ * @property {Function} [onWarning] - Called for every parser that could not be represented exactly.
+ * Default: the warnings are written to the `$comment` of the root schema, one per line.
+ */
+export type ToJsonSchemaOptions = {
+  definitions?: { [name: string]: Parser };
+  onWarning?: (warning: JsonSchemaWarning) => void;
+};
+
+const DRAFT = "https://json-schema.org/draft/2020-12/schema";
+
+const LEAF_KINDS: Kind[] = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "literal",
+  "enums",
+  "unknown",
+  "bigint",
+  "instanceOf",
+  "typedArray",
+  "custom",
+];
+
+const NULL_SCHEMA: JsonSchema = { type: "null" };
+
+/**
+ * The JSON Schema keyword of each constraint whose value is its `value` parameter.
+ */
+const CONSTRAINT_KEYWORDS: { [name: string]: string } = {
+  minLength: "minLength",
+  maxLength: "maxLength",
+  min: "minimum",
+  max: "maximum",
+  multipleOf: "multipleOf",
+  minItems: "minItems",
+  maxItems: "maxItems",
+};
+
+/**
+ * Returns the JSON Schema format of a string parser. Formats that JSON Schema does not define keep their own name,
+ * which validators treat as an annotation.
+ *
+ * @param desc - The descriptor of the string parser.
+ * @returns The name of the format.
+ */
+const formatOf = (desc: DescriptorOf<"string">): string | undefined => {
+  switch (desc.format) {
+    case "url":
+      return "uri";
+    case "ip":
+      return desc.versions?.length === 1 ? `ipv${desc.versions[0]}` : "ip";
+    default:
+      return desc.format;
+  }
+};
+
+/**
+ * Returns whether a parser accepts a missing value, which makes it an optional property of an object, as it is
+ * for `z.object` and `InferShape`. Wrappers such as refinements and brands accept it when the parser they wrap does.
+ *
+ * @param descriptor - The descriptor of the parser.
+ * @returns `true` for unknown, optional, maybe and defaulted parsers, and for the parsers that wrap them.
+ */
+const acceptsMissing = (descriptor: Descriptor): boolean => {
+  switch (descriptor.kind) {
+    case "unknown":
+    case "optional":
+    case "maybe":
+    case "defaulted":
+      return true;
+    case "chain":
+    case "map":
+    case "preprocess":
+    case "refine":
+    case "brand":
+      return acceptsMissing(describe(descriptor.parser));
+    case "pipe":
+      return acceptsMissing(describe(descriptor.parsers[0]));
+    case "union":
+      return descriptor.parsers.some((p) => acceptsMissing(describe(p)));
+    case "intersection":
+      return descriptor.parsers.every((p) => acceptsMissing(describe(p)));
+    default:
+      return false;
+  }
+};
+
+/**
+ * Counts how many times each parser appears in the tree, without descending twice into the same parser.
+ *
+ * @param root - The root parser.
+ * @returns A map from parser to the number of times it appears.
+ */
+const countUses = (root: Parser): Map<Parser, number> => {
+  const uses = new Map<Parser, number>();
+  const visit = (parser: Parser) => {
+    const count = uses.get(parser) ?? 0;
+    uses.set(parser, count + 1);
+    if (count > 0) return;
+    for (const [, child] of children(parser)) visit(child);
+  };
+  visit(root);
+  return uses;
+};
+
+/**
+ * Converts a parser built with the `z.*` functions into a JSON Schema (draft 2020-12) document.
+ * The schema describes the input the parser accepts. Transforms such as `z.chain`, `z.map` and `z.pipe` are exported as the
+ * schema of the parser they wrap, and parsers that are not built with `z.*` are exported as `{}`. Both are reported through `onWarning`,
+ * or in the `$comment` of the root schema when no `onWarning` is given.
+ *
+ * @param parser - The parser to convert.
+ * @param opts - Optional configuration options.
+ * @returns The JSON Schema document.
+ */
+export const toJsonSchema = (
+  parser: Parser,
+  opts?: ToJsonSchemaOptions,
+): JsonSchema => {
+  const warnings: JsonSchemaWarning[] = [];
+  const onWarning =
+    opts?.onWarning ?? ((warning: JsonSchemaWarning) => warnings.push(warning));
+  const uses = countUses(parser);
+  const names = new Map<Parser, string>();
+  const taken = new Set<string>();
+  const defs: { [name: string]: JsonSchema } = {};
+  const inProgress = new Set<Parser>();
+
+  for (const [name, def] of Object.entries(opts?.definitions ?? {})) {
+    names.set(def, name);
+    taken.add(name);
+  }
+
+  const nameOf = (p: Parser, kind: Kind): string => {
+    let name = names.get(p);
+    if (!name) {
+      let i = 1;
+      while (taken.has(`${kind}${i}`)) i++;
+      name = `${kind}${i}`;
+      names.set(p, name);
+      taken.add(name);
+    }
+    return name;
+  };
+
+  const convert = (p: Parser, path: string[]): JsonSchema => {
+    const desc = describe(p);
+    if (p === parser) {
+      return inProgress.has(p) ? { $ref: "#" } : inline(p, desc, path);
+    }
+    const shared =
+      names.has(p) ||
+      ((uses.get(p) ?? 0) > 1 && !LEAF_KINDS.includes(desc.kind));
+    if (!shared) return inline(p, desc, path);
+    const name = nameOf(p, desc.kind);
+    if (!(name in defs) && !inProgress.has(p)) {
+      defs[name] = inline(p, desc, path);
+    }
+    return { $ref: `#/$defs/${name}` };
+  };
+
+  const warn = (kind: Kind, path: string[], message: string) =>
+    onWarning({ path, kind, message });
+
+  const inline = (p: Parser, desc: Descriptor, path: string[]): JsonSchema => {
+    inProgress.add(p);
+    try {
+      return toSchema(desc, path);
+    } finally {
+      inProgress.delete(p);
+    }
+  };
+
+  const objectSchema = (
+    objects: DescriptorOf<"object">[],
+    path: string[],
+  ): JsonSchema => {
+    const properties: { [key: string]: JsonSchema } = {};
+    const required: string[] = [];
+    for (const desc of objects) {
+      for (const [key, child] of Object.entries(desc.shape)) {
+        properties[key] = convert(child, [...path, key]);
+        if (!acceptsMissing(describe(child))) required.push(key);
+      }
+    }
+    const schema: JsonSchema = { type: "object", properties, required };
+    const policies = objects.map((desc) => desc.unknownKeys);
+    const catchall = objects.find((desc) => desc.catchall)?.catchall;
+    if (policies.includes("strict")) {
+      schema.additionalProperties = false;
+    } else if (policies.includes("passthrough") && catchall) {
+      schema.additionalProperties = convert(catchall, path);
+    }
+    return schema;
+  };
+
+  const constraintsSchema = (
+    kind: Kind,
+    constraints: Constraint[],
+    path: string[],
+  ): JsonSchema => {
+    const schema: JsonSchema = {};
+    for (const { name, params } of constraints) {
+      const keyword = CONSTRAINT_KEYWORDS[name];
+      if (name === "positive") {
+        schema.exclusiveMinimum = 0;
+      } else if (name === "pattern") {
+        const pattern = params.value as RegExp;
+        schema.pattern = pattern.source;
+        // JSON Schema patterns are unicode regular expressions, and `g` does not change what a pattern matches.
+        const flags = pattern.flags.replace(/[gu]/g, "");
+        if (flags) {
+          warn(
+            kind,
+            path,
+            `the flags '${flags}' of the pattern ${pattern} cannot be represented`,
+          );
+        }
+      } else if (keyword && kind !== "date") {
+        schema[keyword] = params.value;
+      } else if (name !== "int") {
+        warn(kind, path, `the '${name}' constraint cannot be represented`);
+      }
+    }
+    return schema;
+  };
+
+  const toSchema = (desc: Descriptor, path: string[]): JsonSchema => {
+    switch (desc.kind) {
+      case "string":
+        return {
+          type: "string",
+          ...(desc.format && { format: formatOf(desc) }),
+          ...constraintsSchema(desc.kind, desc.constraints, path),
+        };
+      case "number":
+        return {
+          type: desc.constraints.some((c) => c.name === "int")
+            ? "integer"
+            : "number",
+          ...constraintsSchema(desc.kind, desc.constraints, path),
+        };
+      case "boolean":
+        return { type: "boolean" };
+      case "date":
+        return {
+          type: "string",
+          format: "date-time",
+          ...constraintsSchema(desc.kind, desc.constraints, path),
+        };
+      case "literal":
+        return { const: desc.value };
+      case "enums":
+        return { enum: desc.values };
+      case "unknown":
+        return {};
+      case "optional":
+      case "maybe":
+        return { anyOf: [convert(desc.parser, path), NULL_SCHEMA] };
+      case "defaulted":
+        return {
+          anyOf: [convert(desc.parser, path), NULL_SCHEMA],
+          default: desc.default,
+        };
+      case "array":
+      case "list":
+        return {
+          type: "array",
+          items: convert(desc.parser, path),
+          ...constraintsSchema(desc.kind, desc.constraints, path),
+        };
+      case "object":
+        return objectSchema([desc], path);
+      case "mapOf":
+        if (!desc.coerce) {
+          warn(
+            desc.kind,
+            path,
+            "z.mapOf only accepts Map instances, exported as the entry arrays it accepts with 'coerce'",
+          );
+        }
+        return {
+          type: "array",
+          items: {
+            type: "array",
+            prefixItems: [
+              convert(desc.key, [...path, "key"]),
+              convert(desc.value, [...path, "value"]),
+            ],
+            minItems: 2,
+            maxItems: 2,
+          },
+        };
+      case "set":
+        if (!desc.coerce) {
+          warn(
+            desc.kind,
+            path,
+            "z.set only accepts Set instances, exported as the arrays it accepts with 'coerce'",
+          );
+        }
+        return {
+          type: "array",
+          items: convert(desc.parser, path),
+          uniqueItems: true,
+        };
+      case "bigint":
+        warn(
+          desc.kind,
+          path,
+          "bigints cannot be represented in JSON, exported as an integer",
+        );
+        return { type: "integer" };
+      case "instanceOf":
+      case "typedArray":
+        warn(
+          desc.kind,
+          path,
+          `instances of ${desc.ctor.name} cannot be represented, exported as {}`,
+        );
+        return {};
+      case "record":
+        return {
+          type: "object",
+          propertyNames: convert(desc.key, path),
+          additionalProperties: convert(desc.value, path),
+        };
+      case "tuple": {
+        const prefixItems = desc.parsers.map((child, i) =>
+          convert(child, [...path, i.toString()]),
+        );
+        let minItems = desc.parsers.length;
+        while (
+          minItems > 0 &&
+          acceptsMissing(describe(desc.parsers[minItems - 1]))
+        ) {
+          minItems--;
+        }
+        const items = desc.rest ? convert(desc.rest, path) : false;
+        return { type: "array", prefixItems, items, minItems };
+      }
+      case "union":
+        return {
+          anyOf: desc.parsers.map((child) => convert(child, path)),
+        };
+      case "discriminatedUnion":
+        return {
+          oneOf: Object.entries(desc.branches).map(([tag, branch]) => ({
+            allOf: [
+              {
+                type: "object",
+                properties: { [desc.key]: { const: tag } },
+                required: [desc.key],
+              },
+              convert(branch, path),
+            ],
+          })),
+        };
+      case "intersection": {
+        const members = flattenIntersection(desc.parsers);
+        const objects = members.flatMap((member) => {
+          const d = describe(member);
+          return d.kind === "object" ? [d] : [];
+        });
+        if (objects.length === members.length) {
+          return objectSchema(objects, path);
+        }
+        return {
+          allOf: desc.parsers.map((child) => convert(child, path)),
+        };
+      }
+      case "chain":
+        warn(
+          desc.kind,
+          path,
+          "z.chain transforms its output, only its input is exported",
+        );
+        return convert(desc.parser, path);
+      case "lazy":
+        return convert(desc.getter(), path);
+      case "refine":
+        warn(
+          desc.kind,
+          path,
+          `the '${desc.constraint.name}' refinement cannot be represented, only the parser it wraps is exported`,
+        );
+        return convert(desc.parser, path);
+      case "brand":
+        return convert(desc.parser, path);
+      case "map":
+        warn(
+          desc.kind,
+          path,
+          "z.map transforms its output and may reject more values, only the input of the parser it wraps is exported",
+        );
+        return convert(desc.parser, path);
+      case "pipe":
+        warn(
+          desc.kind,
+          path,
+          "z.pipe runs more parsers on the output of the first one, only the input of the first one is exported",
+        );
+        return convert(desc.parsers[0], path);
+      case "preprocess":
+        warn(
+          desc.kind,
+          path,
+          "z.preprocess transforms its input, the schema of the parser it wraps may reject input it accepts",
+        );
+        return convert(desc.parser, path);
+      case "custom":
+        warn(
+          desc.kind,
+          path,
+          "custom parsers cannot be represented, exported as {}",
+        );
+        return {};
+    }
+  };
+
+  const root = convert(parser, []);
+  for (const [def, name] of names) {
+    if (!(name in defs)) defs[name] = inline(def, describe(def), [name]);
+  }
+  const schema: JsonSchema = { $schema: DRAFT, ...root };
+  if (Object.keys(defs).length > 0) schema.$defs = defs;
+  if (warnings.length > 0) {
+    schema.$comment = warnings
+      .map(({ path, message }) =>
+        path.length > 0 ? `${message} at '${path.join(".")}'` : message,
+      )
+      .join("\n");
+  }
+  return schema;
+};
+
+/**
+ * A keyword of a JSON Schema that `fromJsonSchema` could not turn into a parser.
+ * @property {string} keyword - The keyword that is not supported.
+ * @property {string[]} path - The location of the keyword in the schema, as JSON Pointer segments.
+ * @property {string} message - A message describing the problem.
+ */
+export type JsonSchemaIssue = {
+  keyword: string;
+  path: string[];
+  message: string;
+};
+
+/**
+ * The JsonSchemaError type is returned by `fromJsonSchema` when a schema uses keywords or values it does not support.
+ * @property {JsonSchemaIssue[]} issues - Every problem found in the schema.
+ */
+export class JsonSchemaError extends Error {
+  constructor(public readonly issues: JsonSchemaIssue[]) {
+    super(
+      issues
+        .map((issue) => `${issue.message} at '#/${issue.path.join("/")}'`)
+        .join("\n"),
+    );
+  }
+}
+
+/**
+ * Keywords that only annotate a schema and do not change what it accepts.
+ */
+const ANNOTATIONS = [
+  "$schema",
+  "$id",
+  "$comment",
+  "$defs",
+  "definitions",
+  "title",
+  "description",
+  "examples",
+  "default",
+  "deprecated",
+  "readOnly",
+  "writeOnly",
+];
+
+/**
+ * Keywords handled by `fromJsonSchema`.
+ */
+const KEYWORDS = [
+  ...ANNOTATIONS,
+  "$ref",
+  "type",
+  "format",
+  "enum",
+  "const",
+  "properties",
+  "required",
+  "additionalProperties",
+  "propertyNames",
+  "items",
+  "prefixItems",
+  "minItems",
+  "maxItems",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "multipleOf",
+  "anyOf",
+  "oneOf",
+  "allOf",
+];
+
+const OBJECT_KINDS = ["object", "record", "intersection"];
+
+/**
+ * The UUID versions of the `uuid` format, which accepts every version unlike `z.uuid`.
+ */
+const UUID_VERSIONS: UUIDVersion[] = [1, 2, 3, 4, 5, 6, 7, 8];
+
+/**
+ * Keywords that only apply to one type. They are not supported on schemas that do not have this type.
+ */
+const TYPE_KEYWORDS: { [keyword: string]: JsonSchemaType[] } = {
+  minLength: ["string"],
+  maxLength: ["string"],
+  pattern: ["string"],
+  minimum: ["number", "integer"],
+  maximum: ["number", "integer"],
+  exclusiveMinimum: ["number", "integer"],
+  multipleOf: ["number", "integer"],
+  minItems: ["array"],
+  maxItems: ["array"],
+  required: ["object"],
+  propertyNames: ["object"],
+};
+
+const isLiteral = (value: unknown): value is Literal =>
+  value === null || isString(value) || isNumber(value) || isBoolean(value);
+
+/**
+ * Returns a parser that fails for every input, used for the `false` schema.
+ *
+ * @returns A parser that never succeeds.
+ */
+const never = (): Parser<never> => (input, opts) =>
+  Err(typeErr("never", input, opts));
+
+const missing = z.refine(z.unknown, (value) => value !== undefined, {
+  name: "required",
+  message: "Required",
+});
+
+/**
+ * Returns a parser for a required property, which fails for a missing value even when the schema of the property
+ * accepts any value, such as `{}` or `true`. The parser keeps the descriptor of the parser of the property.
+ *
+ * @param parser - The parser of the property.
+ * @returns A parser that returns the result of `parser`, or an error if the value is missing and `parser` accepted it.
+ */
+const present = (parser: Parser = z.unknown): Parser =>
+  define(describe(parser), (input, opts) => {
+    const res = parser(input, opts);
+    return input === undefined && res.isOk() ? missing(input, opts) : res;
+  });
+
+/**
+ * Returns a parser that runs every parser on the input. If every output is a plain object, the outputs are merged,
+ * otherwise the output of the first parser is returned.
+ *
+ * @param parsers - The parsers to run.
+ * @returns A parser that succeeds only if every parser succeeds.
+ */
+const every =
+  (parsers: Parser[]): Parser =>
+  (input, opts) => {
+    const outputs: unknown[] = [];
+    for (const parser of parsers) {
+      const res = parser(input, opts);
+      if (res.isErr()) return res;
+      outputs.push(res.unwrap());
+    }
+    return outputs.every(isPlainObject)
+      ? Ok(Object.assign(Object.create(null), ...outputs))
+      : Ok(outputs[0]);
+  };
+
+/**
+ * Returns a parser that succeeds when exactly one of the parsers does, as `oneOf` requires. When none does,
+ * the error is the same as for `z.union`, and when several do, it is an `invalid_union` error whose `matches` param
+ * lists the index of each parser that matched.
+ *
+ * @param parsers - The parsers of the branches.
+ * @returns A parser that returns the output of the only matching parser.
+ */
+const exactlyOne =
+  (parsers: Parser[]): Parser =>
+  (input, opts) => {
+    const results = parsers.map((parser) => parser(input, opts));
+    const matches = results.flatMap((res, i) => (res.isOk() ? [i] : []));
+    if (matches.length === 1) return results[matches[0]];
+    if (matches.length === 0) {
+      const errors = results.map((res) => res.unwrapErr());
+      return Err(
+        typeErr(
+          parsers.map((p) => expectedOf(p)).join(" | "),
+          input,
+          opts,
+          "invalid_union",
+          { errors },
+        ),
+      );
+    }
+    const actual = getTypeOf(input);
+    return Err(
+      localize(
+        new ParseError(
+          `Expected exactly one schema of 'oneOf' to match, but ${matches.length} did`,
+          "oneOf",
+          actual,
+          input,
+          [],
+          "invalid_union",
+          { errors: [], matches },
+        ),
+        opts,
+      ),
+    );
+  };
+
+/**
+ * Builds a parser from a JSON Schema (draft 2020-12) document, using the `z.*` functions.
+ * It supports `type`, `properties`, `required`, `additionalProperties`, `propertyNames`, `items`, `prefixItems`,
+ * `minItems`, `maxItems`, `minLength`, `maxLength`, `pattern`, `minimum`, `maximum`, `exclusiveMinimum` of 0, `multipleOf`,
+ * `enum`, `const`, `anyOf`, `oneOf`, `allOf`, the `email`, `uuid`, `uri`, `hostname`, `ipv4`, `ipv6`, `date`, `time`, `duration` and `date-time` formats and local `$ref`s.
+ * String constraints are only supported on strings without a `format`, keywords that only apply to one type, such as `minimum`,
+ * are only supported next to a `type` they apply to, and `required` only next to `properties`. `oneOf` accepts a value that exactly one of its schemas accepts. Properties that are not required are parsed with `z.maybe`,
+ * or with `z.defaulted` when they have a `default`.
+ *
+ * @param schema - The JSON Schema document.
+ * @returns An Ok result containing the parser, or an Err result with a `JsonSchemaError` listing every unsupported keyword.
+ */
+export const fromJsonSchema = (
+  schema: JsonSchema | boolean,
+): Result<Parser, JsonSchemaError> => {
+  const issues: JsonSchemaIssue[] = [];
+  const refs = new Map<string, Parser>();
+
+  const unsupported = (keyword: string, path: string[], message: string) => {
+    issues.push({ keyword, path, message });
+    return z.unknown;
+  };
+
+  const resolve = (ref: string, path: string[]): Parser => {
+    const cached = refs.get(ref);
+    if (cached) return cached;
+    const segments = ref === "#" ? [] : ref.replace(/^#\//, "").split("/");
+    let target: unknown = schema;
+    for (const segment of segments) {
+      target = isPlainObject(target)
+        ? target[segment.replace(/~1/g, "/").replace(/~0/g, "~")]
+        : undefined;
+    }
+    if (!ref.startsWith("#") || target === undefined) {
+      return unsupported("$ref", path, `Cannot resolve '${ref}'`);
+    }
+    // The parser is registered before it is built so that recursive references resolve to it.
+    let parser: Parser = z.unknown;
+    const deferred = z.lazy(() => parser);
+    refs.set(ref, deferred);
+    parser = convert(target as JsonSchema | boolean, segments);
+    return deferred;
+  };
+
+  const typed = (
+    type: JsonSchemaType,
+    node: JsonSchema,
+    path: string[],
+  ): Parser => {
+    switch (type) {
+      case "string":
+        if (
+          node.format !== undefined &&
+          (node.minLength ?? node.maxLength ?? node.pattern) !== undefined
+        ) {
+          return unsupported(
+            "format",
+            [...path, "format"],
+            "String constraints are not supported next to 'format'",
+          );
+        }
+        switch (node.format) {
+          case undefined:
+            return z.string({
+              minLength: node.minLength,
+              maxLength: node.maxLength,
+              pattern:
+                node.pattern !== undefined
+                  ? new RegExp(node.pattern, "u")
+                  : undefined,
+            });
+          case "email":
+            return z.email();
+          case "uuid":
+            return z.uuid({ version: UUID_VERSIONS });
+          case "uri":
+            return z.url();
+          case "hostname":
+            return z.hostname();
+          case "ipv4":
+            return z.ip({ version: 4 });
+          case "ipv6":
+            return z.ip({ version: 6 });
+          case "date":
+            return z.isoDate();
+          case "time":
+            return z.isoTime();
+          case "duration":
+            return z.isoDuration();
+          case "date-time":
+            return z.pipe(z.isoDateTime(), z.date({ coerce: true }));
+          default:
+            return unsupported(
+              "format",
+              [...path, "format"],
+              `Unsupported format '${node.format}'`,
+            );
+        }
+      case "number":
+      case "integer":
+        return numberOf(type === "integer", node, path);
+      case "boolean":
+        return z.boolean();
+      case "null":
+        return z.literal(null);
+      case "array":
+        return arrayOf(node, path);
+      case "object":
+        return objectOf(node, path);
+      default:
+        return unsupported("type", [...path, "type"], `Unknown type '${type}'`);
+    }
+  };
+
+  const numberOf = (int: boolean, node: JsonSchema, path: string[]): Parser => {
+    const { exclusiveMinimum } = node;
+    if (exclusiveMinimum !== undefined && exclusiveMinimum !== 0) {
+      return unsupported(
+        "exclusiveMinimum",
+        [...path, "exclusiveMinimum"],
+        "'exclusiveMinimum' is only supported as 0",
+      );
+    }
+    return z.number({
+      int,
+      positive: exclusiveMinimum === 0,
+      min: node.minimum,
+      max: node.maximum,
+      multipleOf: node.multipleOf,
+    });
+  };
+
+  const arrayOf = (node: JsonSchema, path: string[]): Parser => {
+    if (node.prefixItems) {
+      const rest =
+        node.items === false
+          ? undefined
+          : node.items === undefined || node.items === true
+          ? z.unknown
+          : convert(node.items, [...path, "items"]);
+      const min = node.minItems ?? node.prefixItems.length;
+      const parsers = node.prefixItems.map((item, i) => {
+        const parser = convert(item, [...path, "prefixItems", i.toString()]);
+        return i < min ? parser : z.maybe(parser);
+      });
+      if (parsers.length === 0) return z.array(never());
+      return z.tuple(parsers as [Parser, ...Parser[]], { rest });
+    }
+    const options = { minItems: node.minItems, maxItems: node.maxItems };
+    if (node.items === undefined || node.items === true) {
+      return z.array(z.unknown, options);
+    }
+    return z.array(convert(node.items, [...path, "items"]), options);
+  };
+
+  const objectOf = (node: JsonSchema, path: string[]): Parser => {
+    const { properties, additionalProperties, propertyNames } = node;
+    if (!properties) {
+      if (node.required && node.required.length > 0) {
+        return unsupported(
+          "required",
+          [...path, "required"],
+          "'required' is only supported next to 'properties'",
+        );
+      }
+      const key = propertyNames
+        ? convert(propertyNames, [...path, "propertyNames"])
+        : z.string();
+      const value =
+        additionalProperties === undefined || additionalProperties === true
+          ? z.unknown
+          : convert(additionalProperties, [...path, "additionalProperties"]);
+      return z.record(key as Parser<string>, value);
+    }
+    if (propertyNames) {
+      return unsupported(
+        "propertyNames",
+        [...path, "propertyNames"],
+        "'propertyNames' is not supported next to 'properties'",
+      );
+    }
+    const required = node.required ?? [];
+    const shape: { [key: string]: Parser } = {};
+    for (const [key, child] of Object.entries(properties)) {
+      const parser = convert(child, [...path, "properties", key]);
+      if (required.includes(key)) {
+        shape[key] = present(parser);
+      } else if (isPlainObject(child) && child.default !== undefined) {
+        shape[key] = z.defaulted(parser, child.default);
+      } else {
+        shape[key] = z.maybe(parser);
+      }
+    }
+    for (const key of required) {
+      shape[key] ??= present();
+    }
+    if (additionalProperties === undefined || additionalProperties === true) {
+      return z.object(shape, { unknownKeys: "passthrough" });
+    }
+    if (additionalProperties === false) {
+      return z.object(shape, { unknownKeys: "strict" });
+    }
+    const catchall = convert(additionalProperties, [
+      ...path,
+      "additionalProperties",
+    ]);
+    return z.object(shape, { catchall });
+  };
+
+  const convert = (node: JsonSchema | boolean, path: string[]): Parser => {
+    if (node === true) return z.unknown;
+    if (node === false) return never();
+    if (!isPlainObject(node)) {
+      return unsupported("", path, "A schema must be an object or a boolean");
+    }
+    for (const keyword of Object.keys(node)) {
+      if (!KEYWORDS.includes(keyword)) {
+        unsupported(
+          keyword,
+          [...path, keyword],
+          `Unsupported keyword '${keyword}'`,
+        );
+      }
+    }
+
+    const parts: Parser[] = [];
+    if (node.$ref !== undefined)
+      parts.push(resolve(node.$ref, [...path, "$ref"]));
+
+    const types = isArray(node.type)
+      ? node.type
+      : node.type !== undefined
+      ? [node.type]
+      : node.properties || node.additionalProperties !== undefined
+      ? ["object" as const]
+      : node.items !== undefined || node.prefixItems
+      ? ["array" as const]
+      : node.format !== undefined
+      ? ["string" as const]
+      : [];
+    for (const keyword of Object.keys(node)) {
+      const applies = TYPE_KEYWORDS[keyword];
+      if (applies && !applies.some((type) => types.includes(type))) {
+        unsupported(
+          keyword,
+          [...path, keyword],
+          `'${keyword}' is only supported on schemas of type ${applies
+            .map((type) => `'${type}'`)
+            .join(" or ")}`,
+        );
+      }
+    }
+    if (types.length > 0) {
+      const parsers = types.map((type) => typed(type, node, path));
+      parts.push(
+        parsers.length === 1
+          ? parsers[0]
+          : z.union(parsers as [Parser, ...Parser[]]),
+      );
+    }
+
+    if (node.enum !== undefined) {
+      const values = node.enum;
+      if (values.every(isLiteral) && values.length > 0) {
+        const literals = values.map((v) => z.literal(v as Literal));
+        parts.push(z.union(literals as [Parser, ...Parser[]]));
+      } else {
+        unsupported(
+          "enum",
+          [...path, "enum"],
+          "Only string, number, boolean and null enum values are supported",
+        );
+      }
+    }
+
+    if ("const" in node) {
+      if (isLiteral(node.const)) {
+        parts.push(z.literal(node.const));
+      } else {
+        unsupported(
+          "const",
+          [...path, "const"],
+          "Only string, number, boolean and null constants are supported",
+        );
+      }
+    }
+
+    for (const keyword of ["anyOf", "oneOf"] as const) {
+      const branches = node[keyword];
+      if (branches && branches.length > 0) {
+        const parsers = branches.map((branch, i) =>
+          convert(branch, [...path, keyword, i.toString()]),
+        );
+        parts.push(
+          keyword === "oneOf"
+            ? exactlyOne(parsers)
+            : z.union(parsers as [Parser, ...Parser[]]),
+        );
+      }
+    }
+
+    if (node.allOf) {
+      parts.push(
+        ...node.allOf.map((branch, i) =>
+          convert(branch, [...path, "allOf", i.toString()]),
+        ),
+      );
+    }
+
+    if (parts.length === 0) return z.unknown;
+    if (parts.length === 1) return parts[0];
+    if (parts.every((part) => OBJECT_KINDS.includes(z.describe(part).kind))) {
+      return z.intersection(
+        parts as [Parser<PlainObject>, ...Parser<PlainObject>[]],
+      );
+    }
+    return every(parts);
+  };
+
+  const parser = convert(schema, []);
+  return issues.length > 0 ? Err(new JsonSchemaError(issues)) : Ok(parser);
+};
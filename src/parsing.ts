@@ -1,32 +1,101 @@
 import {
   isArray,
   isBoolean,
+  isBase64,
+  isCIDR,
+  isE164,
   isEmail,
+  isHexColor,
+  isHostname,
+  isIP,
+  isISODate,
+  isISODateTime,
+  isISODuration,
+  isISOTime,
+  isInteger,
+  isMultipleOf,
   isNil,
   isNumber,
+  isObject,
   isPlainObject,
+  isPositive,
+  isSemVer,
   isString,
+  isULID,
+  isURL,
   isUUID,
   isValidDate,
   isValidNumber,
 } from "./guards";
+import type { Constraint, StringFormat } from "./descriptor";
+import type { ErrorMap } from "./errors";
+import type { UUIDVersion } from "./guards";
+import {
+  define,
+  describe,
+  expectedOf,
+  flattenIntersection,
+} from "./descriptor";
+import {
+  AggregateParseError,
+  ConstraintError,
+  ParseError,
+  leafErrors,
+  localize,
+  prependPath,
+  shouldAbort,
+  typeErr,
+  unknownKeyErr,
+} from "./errors";
 import { List } from "./list";
 import type { Option } from "./option";
 import { None, Some } from "./option";
 import type { Result } from "./result";
 import { Err, Ok } from "./result";
-import type { Literal, Maybe, PlainObject } from "./types";
+import type { Brand, Literal, Maybe, PlainObject, Unbrand } from "./types";
 import { Type, getTypeOf } from "./util";
 
+export { children, describe, walk } from "./descriptor";
+export type {
+  Constraint,
+  Descriptor,
+  DescriptorOf,
+  Kind,
+  StringFormat,
+} from "./descriptor";
+export type { ErrorCode, ErrorMap } from "./errors";
+export type { Brand, Unbrand } from "./types";
+export {
+  AggregateParseError,
+  ConstraintError,
+  ParseError,
+  getErrorMap,
+  setErrorMap,
+} from "./errors";
+
+/**
+ * Options that are passed down from a parser to every nested parser it calls.
+ * @typedef {Object} ParseOptions
+ * @property {boolean} [abortEarly=true] - Whether to stop at the first error. When `false`, object, array, tuple and record parsers
+ * keep going and return an `AggregateParseError` with every error they found.
+ * @property {ErrorMap} [errorMap] - Returns the message of each error, for example in another language.
+ * Takes precedence over the error map set with `setErrorMap`.
+ */
+export type ParseOptions = {
+  abortEarly?: boolean;
+  errorMap?: ErrorMap;
+};
+
 /**
  * A Parser is a function that takes an input value of type I and returns a Result object
  * containing either the parsed output value of type O or a ParserError object if parsing failed.
  * @template {unknown} I - The type of the input value.
  * @template {unknown} O - The type of the output value.
- * @typedef {function(I): Result<O, ParseError>} Parser
+ * @typedef {function(I, ParseOptions=): Result<O, ParseError>} Parser
  */
 export type Parser<O = unknown, I = unknown> = (
   input: I,
+  opts?: ParseOptions,
 ) => Result<O, ParseError>;
 
 /**
@@ -41,7 +110,85 @@ export type Infer<T> = T extends Parser<infer U> ? U : never;
  * The resulting type is an object with the same keys as the original object but with each value wrapped in a Parser.
  * @template {T extends PlainObject} - The type of the resulting shape.
  */
-type Shape<T extends PlainObject> = { [K in keyof T]: Parser<T[K]> };
+export type Shape<T extends PlainObject = PlainObject> = {
+  [K in keyof T]: Parser<T[K]>;
+};
+
+/**
+ * Turns an intersection of object types into a single object type, so that it reads like one in editors.
+ */
+type Flatten<T> = { [K in keyof T]: T[K] } & unknown;
+
+/**
+ * The InferShape type extracts the output type of an object parser from its shape.
+ * Keys whose parsers may return `undefined` are optional. Keys of `optional` and `defaulted` parsers are required,
+ * because those parsers always return a value: an `Option`, or the default value.
+ * For example, `{ a: string(), b: maybe(number()) }` gives `{ a: string; b?: Maybe<number> }`.
+ * @template {Shape} S - The shape to infer from.
+ */
+export type InferShape<S extends Shape> = Flatten<
+  {
+    [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+  } & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+  }
+>;
+
+/**
+ * The ExactInferShape type extracts the output type of an object parser built with the `exact` option.
+ * Its optional keys do not include `undefined`, because such keys are left out of the output,
+ * so it can be assigned to types checked with `exactOptionalPropertyTypes`.
+ * For example, `{ a: string(), b: maybe(number()) }` gives `{ a: string; b?: number | null }`.
+ * @template {Shape} S - The shape to infer from.
+ */
+export type ExactInferShape<S extends Shape> = Flatten<
+  {
+    [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+  } & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Exclude<
+      Infer<S[K]>,
+      undefined
+    >;
+  }
+>;
+
+/**
+ * An ObjectParser is a parser returned by `object`, which exposes the shape it was built from.
+ * @template {Shape} S - The shape of the object.
+ * @template {boolean} E - Whether the parser was built with the `exact` option.
+ */
+export type ObjectParser<S extends Shape, E extends boolean = false> = Parser<
+  E extends true ? ExactInferShape<S> : InferShape<S>
+> & {
+  readonly shape: S;
+};
+
+/**
+ * The InferTupleWithRest type extracts the output type of a tuple parser. Trailing elements whose type includes `undefined`
+ * are optional, and the elements of the rest parser, if any, follow them.
+ * For example, the parsers `[string(), maybe(number())]` with a `boolean()` rest parser give `[string, Maybe<number>?, ...boolean[]]`.
+ * @template {Parser[]} Tuple - The parsers of the elements.
+ * @template {Parser | undefined} Rest - The parser of the elements after them.
+ */
+export type InferTupleWithRest<
+  Tuple extends Parser[],
+  Rest extends Parser | undefined = undefined,
+> = Rest extends Parser
+  ? [...OptionalTail<InferTuple<Tuple>>, ...Infer<Rest>[]]
+  : OptionalTail<InferTuple<Tuple>>;
+
+/**
+ * Makes the trailing elements of a tuple type optional, for as long as their type includes `undefined`.
+ * @template {unknown[]} T - The tuple type.
+ */
+export type OptionalTail<T extends unknown[]> = T extends [
+  ...infer Head,
+  infer Last,
+]
+  ? undefined extends Last
+    ? [...OptionalTail<Head>, Last?]
+    : T
+  : T;
 
 /**
  * Borrowed from `superstruct`
@@ -77,96 +224,302 @@ export type UnionToIntersection<U> =
     : never;
 
 /**
- * The ParserError type represents an error that can occur during parsing.
- * @typedef {Object} ParserError
- * @property {string} actual - The actual type of the input.
- * @property {string} expected - The expected type of the input.
- * @property {unknown} input - The input value that caused the error.
- * @property {string} message - A message describing the error.
- * @property {string[]} path - An array representing the path to the value that caused the error.
- */
-export class ParseError extends Error {
-  constructor(
-    message: string,
-    public readonly expected: string,
-    public readonly actual: string,
-    public readonly input: unknown,
-    public readonly path: string[] = [],
-  ) {
-    super(message);
-  }
-}
+ * A constraint together with the test that checks it and the message used when it fails.
+ */
+type Check<T> = Constraint & {
+  test: (value: T) => boolean;
+  message: string;
+};
 
 /**
- * Creates a ParserError object for a given expected type and input value.
+ * Returns the constraints of a list of checks, without their tests.
+ *
+ * @param {Check[]} checks - The checks.
+ * @returns {Constraint[]} The constraints.
+ */
+const constraintsOf = <T>(checks: Check<T>[]): Constraint[] =>
+  checks.map(({ name, params }) => ({ name, params }));
 
- * @param {string} expected - The expected type of the input value.
- * @param {unknown} input - The input value that caused the error.
- * @returns {ParseError} A new ParserError object.
+/**
+ * Runs a list of checks on a value. When not aborting early, every failing check is reported.
+ *
+ * @param {Check[]} checks - The checks to run.
+ * @param {T} value - The value to check.
+ * @param {ParseOptions} [opts] - The options passed to the parser.
+ * @returns {Result<T, ParseError>} An Ok result containing the value if every check passes, otherwise an Err result.
  */
-const typeErr = (expected: string, input: unknown): ParseError => {
-  const actual = getTypeOf(input);
-  return new ParseError(
-    `Type '${actual}' is not assignable to type '${expected}'`,
-    expected,
-    actual,
-    input,
+const runChecks = <T>(
+  checks: Check<T>[],
+  value: T,
+  opts?: ParseOptions,
+): Result<T, ParseError> => {
+  const errors: ParseError[] = [];
+  for (const { name, params, test, message } of checks) {
+    if (test(value)) continue;
+    const err = localize(
+      new ConstraintError(message, name, params, value),
+      opts,
+    );
+    if (shouldAbort(opts)) return Err(err);
+    errors.push(err);
+  }
+  if (errors.length === 0) return Ok(value);
+  if (errors.length === 1) return Err(errors[0]);
+  return Err(
+    localize(new AggregateParseError(errors, getTypeOf(value), value), opts),
   );
 };
 
+/**
+ * Returns `singular` if `count` is 1, otherwise `singular` followed by an "s".
+ */
+const plural = (count: number, singular: string): string =>
+  count === 1 ? singular : `${singular}s`;
+
+/**
+ * Options for string parsers.
+ * @typedef {Object} StringOptions
+ * @property {boolean} [coerce=false] - Whether to coerce the input to a string if it's not already.
+ * @property {number} [minLength] - The minimum length of the string.
+ * @property {number} [maxLength] - The maximum length of the string.
+ * @property {RegExp} [pattern] - A regular expression the string must match.
+ */
+export type StringOptions = {
+  coerce?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+};
+
+const stringChecks = ({
+  minLength,
+  maxLength,
+  pattern,
+}: StringOptions): Check<string>[] => {
+  const checks: Check<string>[] = [];
+  if (minLength !== undefined) {
+    checks.push({
+      name: "minLength",
+      params: { value: minLength },
+      test: (s) => s.length >= minLength,
+      message: `String must contain at least ${minLength} ${plural(
+        minLength,
+        "character",
+      )}`,
+    });
+  }
+  if (maxLength !== undefined) {
+    checks.push({
+      name: "maxLength",
+      params: { value: maxLength },
+      test: (s) => s.length <= maxLength,
+      message: `String must contain at most ${maxLength} ${plural(
+        maxLength,
+        "character",
+      )}`,
+    });
+  }
+  if (pattern !== undefined) {
+    checks.push({
+      name: "pattern",
+      params: { value: pattern },
+      test: (s) => {
+        pattern.lastIndex = 0;
+        return pattern.test(s);
+      },
+      message: `String must match the pattern ${pattern}`,
+    });
+  }
+  return checks;
+};
+
 /**
  * Returns a parser that validates and returns a string from the input.
  *
- * @param {Object} [opts] - Optional configuration options.
+ * @param {StringOptions} [opts] - Optional configuration options.
  * @param {boolean} [opts.coerce=false] - Whether to coerce the input to a string if it's not already.
  *
- * @returns {Parser<string>} A parser that returns a string if the input is a valid string, or an error otherwise.
+ * @returns {Parser<string>} A parser that returns a string if the input is a valid string that satisfies every constraint, or an error otherwise.
  */
-export const string =
-  (opts?: { coerce?: boolean }): Parser<string> =>
-  (input) => {
-    if (opts?.coerce) input = String(input);
-    return isString(input) ? Ok(input) : Err(typeErr(Type.String, input));
-  };
+export const string = (opts: StringOptions = {}): Parser<string> => {
+  const checks = stringChecks(opts);
+  return define(
+    {
+      kind: "string",
+      coerce: !!opts.coerce,
+      constraints: constraintsOf(checks),
+    },
+    (input, parseOpts) => {
+      if (opts.coerce) input = String(input);
+      if (!isString(input)) return Err(typeErr(Type.String, input, parseOpts));
+      return runChecks(checks, input, parseOpts);
+    },
+  );
+};
+
+/**
+ * Options for number parsers.
+ * @typedef {Object} NumberOptions
+ * @property {boolean} [coerce=false] - Whether to coerce the input to a number if it's not already.
+ * @property {boolean} [int=false] - Whether the number must be an integer.
+ * @property {boolean} [positive=false] - Whether the number must be greater than 0.
+ * @property {number} [min] - The minimum value, inclusive.
+ * @property {number} [max] - The maximum value, inclusive.
+ * @property {number} [multipleOf] - A number the value must be a multiple of.
+ */
+export type NumberOptions = {
+  coerce?: boolean;
+  int?: boolean;
+  positive?: boolean;
+  min?: number;
+  max?: number;
+  multipleOf?: number;
+};
+
+const numberChecks = ({
+  int,
+  positive,
+  min,
+  max,
+  multipleOf,
+}: NumberOptions): Check<number>[] => {
+  const checks: Check<number>[] = [];
+  if (int) {
+    checks.push({
+      name: "int",
+      params: {},
+      test: isInteger,
+      message: "Number must be an integer",
+    });
+  }
+  if (positive) {
+    checks.push({
+      name: "positive",
+      params: {},
+      test: isPositive,
+      message: "Number must be positive",
+    });
+  }
+  if (min !== undefined) {
+    checks.push({
+      name: "min",
+      params: { value: min },
+      test: (n) => n >= min,
+      message: `Number must be greater than or equal to ${min}`,
+    });
+  }
+  if (max !== undefined) {
+    checks.push({
+      name: "max",
+      params: { value: max },
+      test: (n) => n <= max,
+      message: `Number must be less than or equal to ${max}`,
+    });
+  }
+  if (multipleOf !== undefined) {
+    checks.push({
+      name: "multipleOf",
+      params: { value: multipleOf },
+      test: (n) => isMultipleOf(n, multipleOf),
+      message: `Number must be a multiple of ${multipleOf}`,
+    });
+  }
+  return checks;
+};
 
 /**
  * Returns a parser that validates and returns a valid number from the input.
  *
- * @param {Object} [opts] - Optional configuration options.
+ * @param {NumberOptions} [opts] - Optional configuration options.
  * @param {boolean} [opts.coerce=false] - Whether to coerce the input to a number if it's not already.
  *
- * @returns {Parser<number>} A parser that returns a number if the input is a valid number, or an error otherwise.
+ * @returns {Parser<number>} A parser that returns a number if the input is a valid number that satisfies every constraint, or an error otherwise.
  */
-export const number =
-  (opts?: { coerce?: boolean }): Parser<number> =>
-  (input) => {
-    if (opts?.coerce) input = Number(input);
-    return isValidNumber(input) ? Ok(input) : Err(typeErr(Type.Number, input));
-  };
+export const number = (opts: NumberOptions = {}): Parser<number> => {
+  const checks = numberChecks(opts);
+  return define(
+    {
+      kind: "number",
+      coerce: !!opts.coerce,
+      constraints: constraintsOf(checks),
+    },
+    (input, parseOpts) => {
+      if (opts.coerce) input = Number(input);
+      if (!isValidNumber(input))
+        return Err(typeErr(Type.Number, input, parseOpts));
+      return runChecks(checks, input, parseOpts);
+    },
+  );
+};
 
 /**
  * Returns a parser that validates and returns a boolean from the input.
  *
  * @returns {Parser<boolean>} A parser that returns a boolean if the input is a valid boolean, or an error otherwise.
  */
-export const boolean = (): Parser<boolean> => (input) =>
-  isBoolean(input) ? Ok(input) : Err(typeErr(Type.Boolean, input));
+export const boolean = (): Parser<boolean> =>
+  define({ kind: "boolean" }, (input, opts) =>
+    isBoolean(input) ? Ok(input) : Err(typeErr(Type.Boolean, input, opts)),
+  );
+
+/**
+ * Options for date parsers.
+ * @typedef {Object} DateOptions
+ * @property {boolean} [coerce=false] - Whether to coerce the input into a Date object if it is a string or a number.
+ * @property {Date} [min] - The earliest allowed date, inclusive.
+ * @property {Date} [max] - The latest allowed date, inclusive.
+ */
+export type DateOptions = {
+  coerce?: boolean;
+  min?: Date;
+  max?: Date;
+};
+
+const dateChecks = ({ min, max }: DateOptions): Check<Date>[] => {
+  const checks: Check<Date>[] = [];
+  if (min !== undefined) {
+    checks.push({
+      name: "min",
+      params: { value: min },
+      test: (d) => d.getTime() >= min.getTime(),
+      message: `Date must be on or after ${min.toISOString()}`,
+    });
+  }
+  if (max !== undefined) {
+    checks.push({
+      name: "max",
+      params: { value: max },
+      test: (d) => d.getTime() <= max.getTime(),
+      message: `Date must be on or before ${max.toISOString()}`,
+    });
+  }
+  return checks;
+};
 
 /**
  * Returns a parser function that converts the input value into a Date object if it is valid.
  *
- * @param {object} [opts] - Optional configuration object.
+ * @param {DateOptions} [opts] - Optional configuration object.
  * @param {boolean} [opts.coerce=false] - Whether to coerce the input into a Date object if it is a string or a number.
- * @returns {Parser<Date>} A parser function that returns an Ok result containing a Date object if the input is valid, otherwise an Err result.
+ * @returns {Parser<Date>} A parser function that returns an Ok result containing a Date object if the input is valid and within range, otherwise an Err result.
  */
-export const date =
-  (opts?: { coerce?: boolean }): Parser<Date> =>
-  (input) => {
-    if (opts?.coerce && (isString(input) || isNumber(input))) {
-      input = new Date(input);
-    }
-    return isValidDate(input) ? Ok(input) : Err(typeErr(Type.Date, input));
-  };
+export const date = (opts: DateOptions = {}): Parser<Date> => {
+  const checks = dateChecks(opts);
+  return define(
+    {
+      kind: "date",
+      coerce: !!opts.coerce,
+      constraints: constraintsOf(checks),
+    },
+    (input, parseOpts) => {
+      if (opts.coerce && (isString(input) || isNumber(input))) {
+        input = new Date(input);
+      }
+      if (!isValidDate(input)) return Err(typeErr(Type.Date, input, parseOpts));
+      return runChecks(checks, input, parseOpts);
+    },
+  );
+};
 
 /**
  * Returns a parser that returns an Option type.
@@ -175,10 +528,10 @@ export const date =
  * @param {Parser<T>} parser - A parser function.
  * @returns {Parser<Option<T>>} A parser function that returns an Ok result containing Some value if the input is not null or undefined, otherwise Ok(None).
  */
-export const optional =
-  <T>(parser: Parser<T>): Parser<Option<T>> =>
-  (input) =>
-    isNil(input) ? Ok(None) : parser(input).map(Some);
+export const optional = <T>(parser: Parser<T>): Parser<Option<T>> =>
+  define({ kind: "optional", parser }, (input, opts) =>
+    isNil(input) ? Ok(None) : parser(input, opts).map(Some),
+  );
 
 /**
  * Returns a parser function that returns a default value if the input is null or undefined.
@@ -188,63 +541,468 @@ export const optional =
  * @param {T} def - The default value to use.
  * @returns {Parser<T>} A parser function that returns an Ok result containing the parsed value if the input is not null or undefined, otherwise Ok(def).
  */
-export const defaulted =
-  <T>(parser: Parser<T>, def: T): Parser<T> =>
-  (input) =>
-    isNil(input) ? Ok(def) : parser(input);
+export const defaulted = <T>(parser: Parser<T>, def: T): Parser<T> =>
+  define({ kind: "defaulted", parser, default: def }, (input, opts) =>
+    isNil(input) ? Ok(def) : parser(input, opts),
+  );
 
-export const maybe =
-  <T>(parser: Parser<T>): Parser<Maybe<T>> =>
-  (input) =>
-    isNil(input) ? Ok(input) : parser(input);
+export const maybe = <T>(parser: Parser<T>): Parser<Maybe<T>> =>
+  define({ kind: "maybe", parser }, (input, opts) =>
+    isNil(input) ? Ok(input) : parser(input, opts),
+  );
+
+/**
+ * Options for array parsers.
+ * @typedef {Object} ArrayOptions
+ * @property {number} [minItems] - The minimum number of items.
+ * @property {number} [maxItems] - The maximum number of items.
+ * @property {boolean} [nonempty=false] - Whether the array must have at least one item. Checked as `minItems: 1`.
+ */
+export type ArrayOptions = {
+  minItems?: number;
+  maxItems?: number;
+  nonempty?: boolean;
+};
+
+const arrayChecks = ({
+  minItems,
+  maxItems,
+  nonempty,
+}: ArrayOptions): Check<unknown[]>[] => {
+  const checks: Check<unknown[]>[] = [];
+  const min = Math.max(minItems ?? 0, nonempty ? 1 : 0);
+  if (min > 0) {
+    checks.push({
+      name: "minItems",
+      params: { value: min },
+      test: (arr) => arr.length >= min,
+      message: `Array must contain at least ${min} ${plural(min, "item")}`,
+    });
+  }
+  if (maxItems !== undefined) {
+    checks.push({
+      name: "maxItems",
+      params: { value: maxItems },
+      test: (arr) => arr.length <= maxItems,
+      message: `Array must contain at most ${maxItems} ${plural(
+        maxItems,
+        "item",
+      )}`,
+    });
+  }
+  return checks;
+};
 
 /**
  * Returns a parser that parses an array of items of type `T` from the input using the given `parser`.
+ * The length of the array is checked before its items are parsed.
  *
  * @template T The type of items in the array.
  * @param {Parser<T>} parser The parser to use to parse each item in the array.
+ * @param {ArrayOptions} [options] - Optional configuration options.
  * @returns {Parser<T[]>} A parser that parses an array of `T` items from the input.
  */
-export const array =
-  <T>(parser: Parser<T>): Parser<T[]> =>
-  (input) => {
-    if (!isArray(input)) return Err(typeErr(Type.Array, input));
-    const arr: T[] = Array(input.length);
-    for (let i = 0; i < arr.length; i++) {
-      const res = parser(input[i]);
-      if (res.isErr()) {
-        const err = res.unwrapErr();
-        err.path.unshift(i.toString());
-        return Err(err);
+export const array = <T>(
+  parser: Parser<T>,
+  options: ArrayOptions = {},
+): Parser<T[]> => {
+  const checks = arrayChecks(options);
+  return define(
+    { kind: "array", parser, constraints: constraintsOf(checks) },
+    (input, opts) => {
+      if (!isArray(input)) return Err(typeErr(Type.Array, input, opts));
+      const checked = runChecks(checks, input, opts);
+      if (checked.isErr()) return checked as Result<never, ParseError>;
+      const arr: T[] = Array(input.length);
+      const errors: ParseError[] = [];
+      for (let i = 0; i < arr.length; i++) {
+        const res = parser(input[i], opts);
+        if (res.isErr()) {
+          const err = prependPath(res.unwrapErr(), i.toString());
+          if (shouldAbort(opts)) return Err(err);
+          errors.push(...leafErrors(err));
+          continue;
+        }
+        arr[i] = res.unwrap();
       }
-      arr[i] = res.unwrap();
+      if (errors.length > 0) {
+        return Err(
+          localize(new AggregateParseError(errors, Type.Array, input), opts),
+        );
+      }
+      return Ok(arr);
+    },
+  );
+};
+
+/**
+ * What an object parser does with keys of the input that are not in its shape.
+ * - `strip` leaves them out of the output.
+ * - `strict` returns an error for each of them.
+ * - `passthrough` copies them to the output, parsed with the `catchall` parser if there is one.
+ * @typedef {"strip" | "strict" | "passthrough"} UnknownKeys
+ */
+export type UnknownKeys = "strip" | "strict" | "passthrough";
+
+/**
+ * Options for object parsers.
+ * @typedef {Object} ObjectOptions
+ * @property {UnknownKeys} [unknownKeys="strip"] - What to do with keys that are not in the shape. Default: `"passthrough"` if `catchall` is set, `"strip"` otherwise.
+ * @property {Parser} [catchall] - A parser for the values of unknown keys when they are passed through.
+ * @property {boolean} [exact=false] - Whether keys whose parsers return `undefined` are left out of the output even when the input has them.
+ * Keys that are missing from the input are always left out. Use it with `exactOptionalPropertyTypes`, where a key set to `undefined`
+ * is not the same as a missing key.
+ */
+export type ObjectOptions = {
+  unknownKeys?: UnknownKeys;
+  catchall?: Parser;
+  exact?: boolean;
+};
+
+/**
+ * Applies an unknown key policy to the keys of `input` that are not known, copying passed through keys to `obj`.
+ *
+ * @param {PlainObject} input - The input object.
+ * @param {(key: string) => boolean} isKnown - Whether a key is part of the shape.
+ * @param {UnknownKeys} unknownKeys - The policy to apply.
+ * @param {Parser | undefined} catchall - The parser for passed through values.
+ * @param {PlainObject} obj - The output object.
+ * @param {ParseError[]} errors - The errors found so far, used when not aborting early.
+ * @param {ParseOptions} [opts] - The options passed to the parser.
+ * @returns {ParseError | undefined} An error to return right away when aborting early.
+ */
+const parseUnknownKeys = (
+  input: PlainObject,
+  isKnown: (key: string) => boolean,
+  unknownKeys: UnknownKeys,
+  catchall: Parser | undefined,
+  obj: PlainObject,
+  errors: ParseError[],
+  opts?: ParseOptions,
+): ParseError | undefined => {
+  if (unknownKeys === "strip") return;
+  for (const key in input) {
+    if (isKnown(key)) continue;
+    const value = input[key];
+    let res: Result<unknown, ParseError> = Ok(value);
+    if (unknownKeys === "strict") {
+      res = Err(unknownKeyErr(key, value, opts));
+    } else if (catchall) {
+      res = catchall(value, opts);
+    }
+    if (res.isErr()) {
+      const err = prependPath(res.unwrapErr(), key);
+      if (shouldAbort(opts)) return err;
+      errors.push(...leafErrors(err));
+      continue;
     }
-    return Ok(arr);
+    obj[key] = res.unwrap();
+  }
+};
+
+/**
+ * Returns whether an object parser sets a key of its output: always when the key has a value,
+ * and when the input has the key set to `undefined` unless the parser is exact.
+ *
+ * @param {PlainObject} input - The input object.
+ * @param {string} key - The key of the shape.
+ * @param {unknown} value - The value its parser returned.
+ * @param {boolean} exact - Whether the parser was built with the `exact` option.
+ * @returns {boolean} Whether to set the key.
+ */
+const isPresent = (
+  input: PlainObject,
+  key: string,
+  value: unknown,
+  exact: boolean,
+): boolean =>
+  value !== undefined ||
+  (!exact && Object.prototype.hasOwnProperty.call(input, key));
+
+/**
+ * The type of `object`. The shape is usually inferred, but the type of the output can also be given explicitly,
+ * as in `object<User>({ ... })`, in which case each parser of the shape is checked against the type of its key.
+ */
+export type ObjectFactory = {
+  <S extends Shape, E extends boolean = false>(
+    shape: S,
+    options?: ObjectOptions & { exact?: E },
+  ): ObjectParser<S, E>;
+  <T extends PlainObject>(
+    shape: Shape<T>,
+    options?: ObjectOptions,
+  ): Parser<T> & {
+    readonly shape: Shape<T>;
   };
+};
 
 /**
  * Returns a parser that parses an object of a given `Shape` from the input.
+ * Keys that are missing from the input are left out of the output when their parsers return `undefined`.
  *
- * @template T A `Shape` object describing the shape of the object to parse.
- * @param {T} shape The `Shape` object describing the shape of the object to parse.
- * @returns {Parser<InferShape<T>>} A parser that parses an object of type `InferShape<T>` from the input.
+ * @template S A `Shape` object describing the shape of the object to parse.
+ * @template E Whether the parser is built with the `exact` option.
+ * @param {S} shape The `Shape` object describing the shape of the object to parse.
+ * @param {ObjectOptions} [options] - Optional configuration options.
+ * @returns {ObjectParser<S, E>} A parser that parses an object of type `InferShape<S>`, or `ExactInferShape<S>` with the `exact` option,
+ * from the input, and exposes `shape`.
  */
-export const object =
-  <T extends PlainObject>(shape: Shape<T>): Parser<T> =>
-  (input) => {
-    if (!isPlainObject(input)) return Err(typeErr(Type.Object, input));
+export const object: ObjectFactory = <
+  S extends Shape,
+  E extends boolean = false,
+>(
+  shape: S,
+  {
+    catchall,
+    unknownKeys = catchall ? "passthrough" : "strip",
+    exact = false as E,
+  }: ObjectOptions & { exact?: E } = {},
+): ObjectParser<S, E> => {
+  const isKnown = (key: string) =>
+    Object.prototype.hasOwnProperty.call(shape, key);
+  const parser: Parser<InferShape<S>> = (input, opts) => {
+    if (!isPlainObject(input)) return Err(typeErr(Type.Object, input, opts));
     const obj = Object.create(null);
+    const errors: ParseError[] = [];
     for (const key in shape) {
-      const res = shape[key](input[key as string]);
+      const res = shape[key](input[key], opts);
       if (res.isErr()) {
-        const err = res.unwrapErr();
-        err.path.unshift(key);
-        return Err(err);
+        const err = prependPath(res.unwrapErr(), key);
+        if (shouldAbort(opts)) return Err(err);
+        errors.push(...leafErrors(err));
+        continue;
       }
-      obj[key] = res.unwrap();
+      const value = res.unwrap();
+      if (isPresent(input, key, value, exact)) obj[key] = value;
+    }
+    const err = parseUnknownKeys(
+      input,
+      isKnown,
+      unknownKeys,
+      catchall,
+      obj,
+      errors,
+      opts,
+    );
+    if (err) return Err(err);
+    if (errors.length > 0) {
+      return Err(
+        localize(new AggregateParseError(errors, Type.Object, input), opts),
+      );
     }
     return Ok(obj);
   };
+  return define(
+    { kind: "object", shape, unknownKeys, catchall, exact },
+    Object.assign(parser, { shape }) as ObjectParser<S, E>,
+  );
+};
+
+/**
+ * Checks whether a parser was built with `object`.
+ *
+ * @param {Parser} parser - The parser to check.
+ * @returns {boolean} `true` if the parser is an object parser; otherwise, `false`.
+ */
+const isObjectParser = (parser: Parser): parser is ObjectParser<Shape> =>
+  describe(parser).kind === "object";
+
+/**
+ * Returns the options an object parser was built with, so that derived parsers keep them.
+ * Derived parsers are typed as if they were not exact, which the output of exact parsers also satisfies.
+ *
+ * @param {ObjectParser<Shape>} parser - The object parser.
+ * @returns {ObjectOptions} The unknown key policy, catchall and `exact` option of the parser.
+ */
+const objectOptions = (
+  parser: ObjectParser<Shape>,
+): ObjectOptions & { exact?: false } => {
+  const desc = describe(parser);
+  return desc.kind === "object"
+    ? {
+        unknownKeys: desc.unknownKeys,
+        catchall: desc.catchall,
+        exact: desc.exact as false,
+      }
+    : {};
+};
+
+/**
+ * Returns an object parser with only the given keys of another object parser's shape.
+ *
+ * @template S The shape of the object parser.
+ * @template K The keys to keep.
+ * @param {ObjectParser<S>} parser The object parser.
+ * @param {K[]} keys The keys to keep.
+ * @returns {ObjectParser<Pick<S, K>>} A new object parser with the same unknown key policy.
+ */
+export const pick = <S extends Shape, K extends keyof S & string>(
+  parser: ObjectParser<S>,
+  keys: K[],
+): ObjectParser<Pick<S, K>> => {
+  const shape = Object.create(null);
+  for (const key of keys) shape[key] = parser.shape[key];
+  return object<Pick<S, K>>(shape, objectOptions(parser));
+};
+
+/**
+ * Returns an object parser without the given keys of another object parser's shape.
+ *
+ * @template S The shape of the object parser.
+ * @template K The keys to remove.
+ * @param {ObjectParser<S>} parser The object parser.
+ * @param {K[]} keys The keys to remove.
+ * @returns {ObjectParser<Omit<S, K>>} A new object parser with the same unknown key policy.
+ */
+export const omit = <S extends Shape, K extends keyof S & string>(
+  parser: ObjectParser<S>,
+  keys: K[],
+): ObjectParser<Omit<S, K>> => {
+  const shape = Object.assign(Object.create(null), parser.shape);
+  for (const key of keys) delete shape[key];
+  return object<Omit<S, K>>(shape, objectOptions(parser));
+};
+
+/**
+ * The PartialShape type wraps every parser of a shape with `maybe`.
+ * @template {Shape} S - The shape to make partial.
+ */
+export type PartialShape<S extends Shape> = {
+  [K in keyof S]: Parser<Maybe<Infer<S[K]>>>;
+};
+
+/**
+ * Returns an object parser where every key of another object parser's shape may be null or undefined.
+ *
+ * @template S The shape of the object parser.
+ * @param {ObjectParser<S>} parser The object parser.
+ * @returns {ObjectParser<PartialShape<S>>} A new object parser with every parser wrapped with `maybe`.
+ */
+export const partial = <S extends Shape>(
+  parser: ObjectParser<S>,
+): ObjectParser<PartialShape<S>> => {
+  const shape = Object.create(null);
+  for (const key in parser.shape) shape[key] = maybe(parser.shape[key]);
+  return object<PartialShape<S>>(shape, objectOptions(parser));
+};
+
+/**
+ * The DeepPartialShape type wraps every parser of a shape with `maybe`, making nested object parsers deeply partial first.
+ * @template {Shape} S - The shape to make partial.
+ */
+export type DeepPartialShape<S extends Shape> = {
+  [K in keyof S]: Parser<
+    Maybe<
+      S[K] extends ObjectParser<infer N extends Shape>
+        ? InferShape<DeepPartialShape<N>>
+        : Infer<S[K]>
+    >
+  >;
+};
+
+/**
+ * Returns an object parser where every key of another object parser's shape may be null or undefined,
+ * and where every key of nested object parsers may be too.
+ *
+ * @template S The shape of the object parser.
+ * @param {ObjectParser<S>} parser The object parser.
+ * @returns {ObjectParser<DeepPartialShape<S>>} A new object parser with every parser wrapped with `maybe`, at every depth.
+ */
+export const deepPartial = <S extends Shape>(
+  parser: ObjectParser<S>,
+): ObjectParser<DeepPartialShape<S>> => {
+  const shape = Object.create(null);
+  for (const key in parser.shape) {
+    const child: Parser = parser.shape[key];
+    shape[key] = maybe(isObjectParser(child) ? deepPartial(child) : child);
+  }
+  return object<DeepPartialShape<S>>(shape, objectOptions(parser));
+};
+
+/**
+ * The RequiredShape type removes null, undefined and `None` from the output of every parser of a shape.
+ * @template {Shape} S - The shape to make required.
+ */
+export type RequiredShape<S extends Shape> = {
+  [K in keyof S]: Parser<
+    Infer<S[K]> extends Option<infer U> ? U : NonNullable<Infer<S[K]>>
+  >;
+};
+
+/**
+ * Returns an object parser where the `optional`, `maybe` and `defaulted` parsers of another object parser's shape
+ * are replaced with the parsers they wrap, so every key is required.
+ *
+ * @template S The shape of the object parser.
+ * @param {ObjectParser<S>} parser The object parser.
+ * @returns {ObjectParser<RequiredShape<S>>} A new object parser where every key is required.
+ */
+export const required = <S extends Shape>(
+  parser: ObjectParser<S>,
+): ObjectParser<RequiredShape<S>> => {
+  const shape = Object.create(null);
+  for (const key in parser.shape) {
+    const desc = describe(parser.shape[key]);
+    shape[key] =
+      desc.kind === "optional" ||
+      desc.kind === "maybe" ||
+      desc.kind === "defaulted"
+        ? desc.parser
+        : parser.shape[key];
+  }
+  return object<RequiredShape<S>>(shape, objectOptions(parser));
+};
+
+/**
+ * The Extend type merges two shapes, where the keys of the second shape replace the keys of the first.
+ * @template {Shape} A - The base shape.
+ * @template {Shape} B - The shape to add.
+ */
+export type Extend<A extends Shape, B extends Shape> = {
+  [K in keyof A | keyof B]: K extends keyof B
+    ? B[K]
+    : K extends keyof A
+    ? A[K]
+    : never;
+};
+
+/**
+ * Returns an object parser with the shape of another object parser plus the given shape.
+ * Keys in `shape` replace the keys of the same name.
+ *
+ * @template A The shape of the object parser.
+ * @template B The shape to add.
+ * @param {ObjectParser<A>} parser The object parser.
+ * @param {B} shape The shape to add.
+ * @returns {ObjectParser<Extend<A, B>>} A new object parser with the same unknown key policy.
+ */
+export const extend = <A extends Shape, B extends Shape>(
+  parser: ObjectParser<A>,
+  shape: B,
+): ObjectParser<Extend<A, B>> =>
+  object<Extend<A, B>>(
+    Object.assign(Object.create(null), parser.shape, shape),
+    objectOptions(parser),
+  );
+
+/**
+ * Returns an object parser with the shapes of two object parsers. Keys of `b` replace the keys of the same name,
+ * and the unknown key policy of `b` is used.
+ *
+ * @template A The shape of the first object parser.
+ * @template B The shape of the second object parser.
+ * @param {ObjectParser<A>} a The first object parser.
+ * @param {ObjectParser<B>} b The second object parser.
+ * @returns {ObjectParser<Extend<A, B>>} A new object parser.
+ */
+export const merge = <A extends Shape, B extends Shape>(
+  a: ObjectParser<A>,
+  b: ObjectParser<B>,
+): ObjectParser<Extend<A, B>> =>
+  object<Extend<A, B>>(
+    Object.assign(Object.create(null), a.shape, b.shape),
+    objectOptions(b),
+  );
 
 /**
  * Returns a parser that parses a record (i.e., an object whose keys are of type `K` and values of type `T`)
@@ -257,31 +1015,273 @@ export const object =
  * @returns {Parser<Record<K, T>>} A parser that parses a record of keys of type `K` and values of type `T`
  * from the input.
  */
-export const record =
-  <K extends string, T>(
-    keyParser: Parser<K>,
-    valueParser: Parser<T>,
-  ): Parser<Record<K, T>> =>
-  (input) => {
-    if (!isPlainObject(input)) return Err(typeErr(Type.Object, input));
-    const obj = Object.create(null);
-    for (const key in input) {
-      const kres = keyParser(key);
-      if (kres.isErr()) {
-        const err = kres.unwrapErr();
-        err.path.unshift(key);
-        return Err(err);
+export const record = <K extends string, T>(
+  keyParser: Parser<K>,
+  valueParser: Parser<T>,
+): Parser<Record<K, T>> =>
+  define(
+    { kind: "record", key: keyParser, value: valueParser },
+    (input, opts) => {
+      if (!isPlainObject(input)) return Err(typeErr(Type.Object, input, opts));
+      const obj = Object.create(null);
+      const errors: ParseError[] = [];
+      for (const key in input) {
+        const kres = keyParser(key, opts);
+        if (kres.isErr()) {
+          const err = prependPath(kres.unwrapErr(), key);
+          if (shouldAbort(opts)) return Err(err);
+          errors.push(...leafErrors(err));
+        }
+        const vres = valueParser(input[key], opts);
+        if (vres.isErr()) {
+          const err = prependPath(vres.unwrapErr(), key);
+          if (shouldAbort(opts)) return Err(err);
+          errors.push(...leafErrors(err));
+        }
+        if (kres.isOk() && vres.isOk()) {
+          obj[kres.unwrap()] = vres.unwrap();
+        }
+      }
+      if (errors.length > 0) {
+        return Err(
+          localize(new AggregateParseError(errors, Type.Object, input), opts),
+        );
+      }
+      return Ok(obj);
+    },
+  );
+
+/**
+ * Returns a parser that parses a `Map` whose keys are parsed with `keyParser` and values with `valueParser`.
+ * It is named `mapOf` because `map` transforms the output of a parser.
+ * The path of an error starts with the index of the entry in iteration order, followed by `key` or `value`.
+ *
+ * @template K The type of keys in the map.
+ * @template T The type of values in the map.
+ * @param {Parser<K>} keyParser The parser to use to parse the keys of the map.
+ * @param {Parser<T>} valueParser The parser to use to parse the values of the map.
+ * @param {Object} [options] - Optional configuration options.
+ * @param {boolean} [options.coerce=false] - Whether to also accept an array of `[key, value]` entries, or a plain object.
+ * @returns {Parser<Map<K, T>>} A parser that returns a new `Map` with the parsed keys and values.
+ */
+export const mapOf = <K, T>(
+  keyParser: Parser<K>,
+  valueParser: Parser<T>,
+  options?: { coerce?: boolean },
+): Parser<Map<K, T>> => {
+  const coerce = !!options?.coerce;
+  return define(
+    { kind: "mapOf", key: keyParser, value: valueParser, coerce },
+    (input, opts) => {
+      let entries: unknown[];
+      if (input instanceof Map) {
+        entries = Array.from(input);
+      } else if (coerce && isPlainObject(input)) {
+        entries = Object.entries(input);
+      } else if (coerce && isArray(input) && input.every(isEntry)) {
+        entries = input;
+      } else {
+        return Err(typeErr(Type.Map, input, opts));
+      }
+      const map = new Map<K, T>();
+      const errors: ParseError[] = [];
+      for (let i = 0; i < entries.length; i++) {
+        const [key, value] = entries[i] as [unknown, unknown];
+        const kres = keyParser(key, opts);
+        if (kres.isErr()) {
+          const err = prependPath(prependPath(kres.unwrapErr(), "key"), `${i}`);
+          if (shouldAbort(opts)) return Err(err);
+          errors.push(...leafErrors(err));
+        }
+        const vres = valueParser(value, opts);
+        if (vres.isErr()) {
+          const err = prependPath(
+            prependPath(vres.unwrapErr(), "value"),
+            `${i}`,
+          );
+          if (shouldAbort(opts)) return Err(err);
+          errors.push(...leafErrors(err));
+        }
+        if (kres.isOk() && vres.isOk()) map.set(kres.unwrap(), vres.unwrap());
       }
-      const vres = valueParser(input[key]);
-      if (vres.isErr()) {
-        const err = vres.unwrapErr();
-        err.path.unshift(key);
-        return Err(err);
+      if (errors.length > 0) {
+        return Err(
+          localize(new AggregateParseError(errors, Type.Map, input), opts),
+        );
       }
-      obj[kres.unwrap()] = vres.unwrap();
+      return Ok(map);
+    },
+  );
+};
+
+const isEntry = (value: unknown): value is [unknown, unknown] =>
+  isArray(value) && value.length === 2;
+
+/**
+ * Returns a parser that parses a `Set` whose items are parsed with `parser`.
+ * The path of an error starts with the index of the item in iteration order.
+ *
+ * @template T The type of items in the set.
+ * @param {Parser<T>} parser The parser to use to parse each item.
+ * @param {Object} [options] - Optional configuration options.
+ * @param {boolean} [options.coerce=false] - Whether to also accept an array of items.
+ * @returns {Parser<Set<T>>} A parser that returns a new `Set` with the parsed items.
+ */
+export const set = <T>(
+  parser: Parser<T>,
+  options?: { coerce?: boolean },
+): Parser<Set<T>> => {
+  const coerce = !!options?.coerce;
+  return define({ kind: "set", parser, coerce }, (input, opts) => {
+    if (!(input instanceof Set) && !(coerce && isArray(input))) {
+      return Err(typeErr(Type.Set, input, opts));
     }
-    return Ok(obj);
-  };
+    const set = new Set<T>();
+    const errors: ParseError[] = [];
+    let i = 0;
+    for (const item of input) {
+      const res = parser(item, opts);
+      if (res.isErr()) {
+        const err = prependPath(res.unwrapErr(), `${i}`);
+        if (shouldAbort(opts)) return Err(err);
+        errors.push(...leafErrors(err));
+      } else {
+        set.add(res.unwrap());
+      }
+      i++;
+    }
+    if (errors.length > 0) {
+      return Err(
+        localize(new AggregateParseError(errors, Type.Set, input), opts),
+      );
+    }
+    return Ok(set);
+  });
+};
+
+/**
+ * Returns a parser that validates and returns a bigint from the input.
+ *
+ * @param {Object} [opts] - Optional configuration options.
+ * @param {boolean} [opts.coerce=false] - Whether to coerce integer numbers and integer strings to a bigint.
+ *
+ * @returns {Parser<bigint>} A parser that returns a bigint if the input is a bigint, or an error otherwise.
+ */
+export const bigint = (opts?: { coerce?: boolean }): Parser<bigint> =>
+  define({ kind: "bigint", coerce: !!opts?.coerce }, (input, parseOpts) => {
+    if (
+      opts?.coerce &&
+      ((isNumber(input) && isInteger(input)) ||
+        (isString(input) && /^\s*[+-]?\d+\s*$/.test(input)))
+    ) {
+      input = BigInt(input);
+    }
+    return typeof input === "bigint"
+      ? Ok(input)
+      : Err(typeErr(Type.BigInt, input, parseOpts));
+  });
+
+/**
+ * Returns a parser that checks that the input is an instance of a class.
+ *
+ * @template T The type of the instances.
+ * @param {new (...args: any[]) => T} ctor The class.
+ * @returns {Parser<T>} A parser that returns the input if it is an instance of the class, or an error otherwise.
+ */
+export const instanceOf = <T>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ctor: abstract new (...args: any[]) => T,
+): Parser<T> =>
+  define({ kind: "instanceOf", ctor }, (input, opts) =>
+    input instanceof ctor ? Ok(input) : Err(typeErr(ctor.name, input, opts)),
+  );
+
+/**
+ * The typed array classes.
+ */
+export type TypedArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Uint8ClampedArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int32ArrayConstructor
+  | Uint32ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor
+  | BigInt64ArrayConstructor
+  | BigUint64ArrayConstructor;
+
+const FLOAT32_MAX = 3.4028234663852886e38;
+
+/**
+ * Returns a parser for the items of a typed array class, which rejects the values the class would change:
+ * numbers that are not integers or are out of range for the integer classes, numbers too large for `Float32Array`,
+ * and bigints out of range for `BigInt64Array` and `BigUint64Array`.
+ *
+ * @param {TypedArrayConstructor} ctor The typed array class.
+ * @returns {Parser} The parser of the items.
+ */
+const typedArrayItem = (
+  ctor: TypedArrayConstructor,
+): Parser<number> | Parser<bigint> => {
+  const bits = ctor.BYTES_PER_ELEMENT * 8;
+  const signed = /^(Int|BigInt)/.test(ctor.name);
+  if (ctor === BigInt64Array || ctor === BigUint64Array) {
+    const min = signed ? -(2n ** BigInt(bits - 1)) : 0n;
+    const max = (signed ? 2n ** BigInt(bits - 1) : 2n ** BigInt(bits)) - 1n;
+    return refine(
+      refine(bigint(), (n) => n >= min, {
+        name: "min",
+        params: { value: min },
+        message: `BigInt must be greater than or equal to ${min}`,
+      }),
+      (n) => n <= max,
+      {
+        name: "max",
+        params: { value: max },
+        message: `BigInt must be less than or equal to ${max}`,
+      },
+    );
+  }
+  if (ctor === Float64Array) return number();
+  if (ctor === Float32Array) {
+    return number({ min: -FLOAT32_MAX, max: FLOAT32_MAX });
+  }
+  return number({
+    int: true,
+    min: signed ? -(2 ** (bits - 1)) : 0,
+    max: (signed ? 2 ** (bits - 1) : 2 ** bits) - 1,
+  });
+};
+
+/**
+ * Returns a parser that checks that the input is a typed array of a given class, such as `Uint8Array`.
+ *
+ * @template C The typed array class.
+ * @param {C} ctor The typed array class.
+ * @param {Object} [options] - Optional configuration options.
+ * @param {boolean} [options.coerce=false] - Whether to also accept an array of numbers, or of bigints for `BigInt64Array`
+ * and `BigUint64Array`, which is copied into a new typed array. Items that the class would change, such as `300` or `1.5`
+ * for a `Uint8Array`, are rejected with an error at their index.
+ * @returns {Parser<InstanceType<C>>} A parser that returns the typed array.
+ */
+export const typedArray = <C extends TypedArrayConstructor>(
+  ctor: C,
+  options?: { coerce?: boolean },
+): Parser<InstanceType<C>> => {
+  const coerce = !!options?.coerce;
+  const items = array(typedArrayItem(ctor) as Parser<number | bigint>);
+  return define({ kind: "typedArray", ctor, coerce }, (input, opts) => {
+    if (input instanceof ctor) return Ok(input as InstanceType<C>);
+    if (coerce && isArray(input)) {
+      return items(input, opts).map((values) =>
+        (ctor.from as (items: unknown[]) => InstanceType<C>)(values),
+      );
+    }
+    return Err(typeErr(ctor.name.toLowerCase(), input, opts));
+  });
+};
 
 /**
  * Chains together a parser and a list of functions to apply to its result.
@@ -292,10 +1292,15 @@ export const record =
  * @returns A parser that applies the chain of functions to the parser result.
  * @template T - The type of the parser result.
  */
-export const chain =
-  <T>(parser: Parser<T>, ...fns: ((value: T) => T)[]): Parser<T> =>
-  (input) =>
-    parser(input).andThen((value) => Ok(fns.reduce((v, f) => f(v), value)));
+export const chain = <T>(
+  parser: Parser<T>,
+  ...fns: ((value: T) => T)[]
+): Parser<T> =>
+  define({ kind: "chain", parser }, (input, opts) =>
+    parser(input, opts).andThen((value) =>
+      Ok(fns.reduce((v, f) => f(v), value)),
+    ),
+  );
 
 /**
  * Takes a `Parser` and a function that maps its output to a new value, and returns a new `Parser` that applies the function to the output of the original parser.
@@ -303,16 +1308,172 @@ export const chain =
  * @template T - The type of the input to the original parser.
  * @template O - The type of the output of the new parser.
  * @param {Parser<T>} parser - The original `Parser` to apply the mapping function to.
- * @param {(value: T) => Result<O, ParseError>} f - The function to apply to the output of the original `Parser`. It takes the output value as input and returns either a `Result` containing the new output value or a `ParserError`.
+ * @param {(value: T, opts?: ParseOptions) => Result<O, ParseError>} f - The function to apply to the output of the original `Parser`. It takes the output value and the parse options as input and returns either a `Result` containing the new output value or a `ParserError`.
  * @returns {Parser<O>} - A new `Parser` that applies the mapping function to the output of the original `Parser`.
  */
-export const map =
-  <T, O>(
-    parser: Parser<T>,
-    f: (value: T) => Result<O, ParseError>,
-  ): Parser<O> =>
-  (input) =>
-    parser(input).andThen(f);
+export const map = <T, O>(
+  parser: Parser<T>,
+  f: (value: T, opts?: ParseOptions) => Result<O, ParseError>,
+): Parser<O> =>
+  define({ kind: "map", parser }, (input, opts) =>
+    parser(input, opts).andThen((value) => f(value, opts)),
+  );
+
+/**
+ * The type of `pipe`, with an overload for each number of parsers so that each parser is checked against
+ * the output of the one before it, and inline parsers get the type of their input.
+ */
+export type Pipe = {
+  <I, A, B>(a: Parser<A, I>, b: Parser<B, A>): Parser<B, I>;
+  <I, A, B, C>(a: Parser<A, I>, b: Parser<B, A>, c: Parser<C, B>): Parser<C, I>;
+  <I, A, B, C, D>(
+    a: Parser<A, I>,
+    b: Parser<B, A>,
+    c: Parser<C, B>,
+    d: Parser<D, C>,
+  ): Parser<D, I>;
+  <I, A, B, C, D, E>(
+    a: Parser<A, I>,
+    b: Parser<B, A>,
+    c: Parser<C, B>,
+    d: Parser<D, C>,
+    e: Parser<E, D>,
+  ): Parser<E, I>;
+  <I, A, B, C, D, E, F>(
+    a: Parser<A, I>,
+    b: Parser<B, A>,
+    c: Parser<C, B>,
+    d: Parser<D, C>,
+    e: Parser<E, D>,
+    f: Parser<F, E>,
+  ): Parser<F, I>;
+};
+
+/**
+ * Returns a parser that runs parsers one after the other, each on the output of the one before it,
+ * and returns the output of the last one. It stops at the first parser that fails and returns its error as it is,
+ * so the path of the error is relative to the value that parser was given.
+ *
+ * @example
+ * const Tags = z.pipe(
+ *   z.string(),
+ *   (s: string) => Ok(s.split(",").map((tag) => tag.trim())),
+ *   z.array(z.string({ minLength: 1 })),
+ * );
+ *
+ * @param parsers - The parsers to run, from first to last.
+ * @returns A parser that returns the output of the last parser.
+ */
+export const pipe: Pipe = (...parsers: Parser<unknown, never>[]) =>
+  define({ kind: "pipe", parsers: parsers as Parser[] }, (input, opts) => {
+    let res: Result<unknown, ParseError> = Ok(input);
+    for (const parser of parsers as Parser[]) {
+      res = parser(res.unwrap(), opts);
+      if (res.isErr()) break;
+    }
+    return res;
+  }) as Parser<never>;
+
+/**
+ * Returns a parser that transforms its input with a function before parsing it, for input that needs to be
+ * trimmed, split or unwrapped first. Errors are those of the parser, for the transformed input.
+ *
+ * @example
+ * const Ids = z.preprocess(
+ *   (input) => (typeof input === "string" ? input.split(",") : input),
+ *   z.array(z.number({ coerce: true })),
+ * );
+ *
+ * @template T - The type of the parsed value.
+ * @param {(input: unknown) => unknown} f - The function to apply to the input. It gets any input, not only valid one.
+ * @param {Parser<T>} parser - The parser to run on the transformed input.
+ * @returns {Parser<T>} A parser that returns the output of `parser` for the transformed input.
+ */
+export const preprocess = <T>(
+  f: (input: unknown) => unknown,
+  parser: Parser<T>,
+): Parser<T> =>
+  define({ kind: "preprocess", parser }, (input, opts) =>
+    parser(f(input), opts),
+  );
+
+/**
+ * Options for `refine`.
+ * @typedef {Object} RefineOptions
+ * @property {string} [name="refine"] - The machine-readable name of the constraint.
+ * @property {Object} [params={}] - The parameters of the constraint, reported in errors and descriptors.
+ * @property {string} [message="Invalid value"] - The message of the error returned when the predicate fails.
+ */
+export type RefineOptions = {
+  name?: string;
+  params?: { [key: string]: unknown };
+  message?: string;
+};
+
+/**
+ * Returns a parser that checks the output of a parser with a custom predicate.
+ * When the predicate fails, the parser returns a `ConstraintError` with the given name and parameters.
+ *
+ * @template T - The type of the parsed value.
+ * @param {Parser<T>} parser - The parser whose output to check.
+ * @param {(value: T) => boolean} predicate - The check to run on the output.
+ * @param {RefineOptions} [options] - Optional configuration options.
+ * @returns {Parser<T>} A parser that returns the output of `parser` if the predicate holds, or an error otherwise.
+ */
+export const refine = <T>(
+  parser: Parser<T>,
+  predicate: (value: T) => boolean,
+  {
+    name = "refine",
+    params = {},
+    message = "Invalid value",
+  }: RefineOptions = {},
+): Parser<T> => {
+  const check: Check<T> = { name, params, test: predicate, message };
+  return define(
+    { kind: "refine", parser, constraint: { name, params } },
+    (input, opts) =>
+      parser(input, opts).andThen((value) => runChecks([check], value, opts)),
+  );
+};
+
+/**
+ * Returns a parser that brands the output of a parser with a nominal type, so that it can only be used
+ * where a value checked by this parser is expected. The brand only exists at the type level: the value is not changed.
+ *
+ * @example
+ * const UserId = z.brand(z.uuid(), "UserId");
+ * type UserId = z.Infer<typeof UserId>; // Brand<string, "UserId">
+ *
+ * @template T - The type of the parsed value.
+ * @template B - The name of the brand.
+ * @param {Parser<T>} parser - The parser whose output to brand.
+ * @param {B} name - The name of the brand, which is also reported in the descriptor.
+ * @returns {Parser<Brand<T, B>>} A parser that returns the output of `parser` as a branded value.
+ */
+export const brand = <T, B extends string>(
+  parser: Parser<T>,
+  name: B,
+): Parser<Brand<T, B>> =>
+  define(
+    { kind: "brand", parser, name },
+    (input, opts) => parser(input, opts) as Result<Brand<T, B>, ParseError>,
+  );
+
+/**
+ * Brands a value without checking it. Use it for values that are known to be valid, such as constants
+ * and values read back from a trusted store.
+ *
+ * @example
+ * const admin = z.unsafeBrand<UserId>("00000000-0000-4000-8000-000000000000");
+ *
+ * @template T - The branded type.
+ * @param {Unbrand<T>} value - The value to brand.
+ * @returns {T} The same value, typed as the branded type.
+ */
+export const unsafeBrand = <T extends Brand<unknown, string>>(
+  value: Unbrand<T>,
+): T => value as T;
 
 /**
  * Reutrns a parser that parses a string or number input and returns a value from an enum based on its key or value.
@@ -325,33 +1486,86 @@ export const enums = <T extends { [key: string]: string | number }>(
   en: T,
 ): Parser<T[keyof T]> => {
   const values = Object.values(en);
-  return (input) =>
+  return define({ kind: "enums", values }, (input, opts) =>
     values.includes(input as string)
       ? Ok(input as T[keyof T])
-      : Err(typeErr(values.join(" | "), input));
+      : Err(
+          typeErr(values.join(" | "), input, opts, "invalid_enum", {
+            options: values,
+          }),
+        ),
+  );
 };
 
 /**
  * Takes an array of parsers and returns a new parser that produces the intersection of the results of each parser.
+ * When every member is an object parser, unknown keys are checked once against the keys of all members:
+ * the intersection is strict if any member is strict, otherwise it passes unknown keys through if any member does.
  *
  * @template A - The type of the first parser.
  * @template B - The type of the rest of the parsers.
  * @param { [A, ...B] } structs - The array of parsers to apply the intersection.
  * @returns { Parser<Infer<A> & UnionToIntersection<InferTuple<B>[number]>> } - A new parser that produces the intersection of the results of each parser.
  */
-export const intersection =
-  <A extends Parser<PlainObject>, B extends Parser<PlainObject>[]>(
-    structs: [A, ...B],
-  ): Parser<Infer<A> & UnionToIntersection<InferTuple<B>[number]>> =>
-  (input) => {
+export const intersection = <
+  A extends Parser<PlainObject>,
+  B extends Parser<PlainObject>[],
+>(
+  structs: [A, ...B],
+): Parser<Infer<A> & UnionToIntersection<InferTuple<B>[number]>> => {
+  const members = flattenIntersection(structs).map(describe);
+  const objects = members.flatMap((desc) =>
+    desc.kind === "object" ? [desc] : [],
+  );
+  const policies = objects.map((desc) => desc.unknownKeys);
+  const unknownKeys: UnknownKeys = policies.includes("strict")
+    ? "strict"
+    : policies.includes("passthrough")
+    ? "passthrough"
+    : "strip";
+  const catchall = objects.find((desc) => desc.catchall)?.catchall;
+  const isKnown = (key: string) =>
+    objects.some((desc) =>
+      Object.prototype.hasOwnProperty.call(desc.shape, key),
+    );
+  // Unknown keys can only be checked when every member declares its keys.
+  const parsers =
+    objects.length === members.length
+      ? objects.map((desc) => object(desc.shape, { exact: desc.exact }))
+      : structs;
+  return define({ kind: "intersection", parsers: structs }, (input, opts) => {
     const obj = Object.create(null);
-    for (const struct of structs) {
-      const res = struct(input);
-      if (res.isErr()) return res;
+    const errors: ParseError[] = [];
+    for (const parser of parsers) {
+      const res = parser(input, opts);
+      if (res.isErr()) {
+        const err = res.unwrapErr();
+        if (shouldAbort(opts)) return Err(err);
+        errors.push(...leafErrors(err));
+        continue;
+      }
       Object.assign(obj, res.unwrap());
     }
+    if (parsers !== structs && isPlainObject(input)) {
+      const err = parseUnknownKeys(
+        input,
+        isKnown,
+        unknownKeys,
+        catchall,
+        obj,
+        errors,
+        opts,
+      );
+      if (err) return Err(err);
+    }
+    if (errors.length > 0) {
+      return Err(
+        localize(new AggregateParseError(errors, Type.Object, input), opts),
+      );
+    }
     return Ok(obj);
-  };
+  });
+};
 
 /**
  * Takes a constant value and returns a new parser that returns the constant value if the input is equal to the constant value.
@@ -360,38 +1574,80 @@ export const intersection =
  * @param { T } constant - The constant value to compare to the input.
  * @returns { Parser<T> } - A new parser that returns the constant value if the input is equal to the constant value.
  */
-export const literal =
-  <T extends Literal>(constant: T): Parser<T> =>
-  (input) =>
-    input === constant ? Ok(constant) : Err(typeErr(String(constant), input));
+export const literal = <T extends Literal>(constant: T): Parser<T> =>
+  define({ kind: "literal", value: constant }, (input, opts) =>
+    input === constant
+      ? Ok(constant)
+      : Err(
+          typeErr(String(constant), input, opts, "invalid_literal", {
+            expected: constant,
+          }),
+        ),
+  );
+
+/**
+ * Options for tuple parsers.
+ * @typedef {Object} TupleOptions
+ * @property {Parser} [rest] - The parser of the elements after the tuple. Without it, an array with more elements than the tuple is rejected.
+ */
+export type TupleOptions<R = Parser | undefined> = {
+  rest?: R;
+};
 
 /**
  * Takes an array of parsers and returns a new parser that produces a tuple with the results of each parser in the array.
+ * Trailing elements parsed with `optional`, `maybe` or `defaulted` may be missing from the input.
+ * Elements after the tuple are parsed with the `rest` parser, or make the parser fail with a `maxItems` constraint error if there is none.
  *
  * @template A - The type of the first parser.
  * @template B - The type of the rest of the parsers.
+ * @template R - The type of the rest parser.
  * @param { [A, ...B] } parsers - The array of parsers to apply to the input.
- * @returns { Parser<[Infer<A>, ...InferTuple<B>]> } - A new parser that produces a tuple with the results of each parser in the array.
- */
-export const tuple =
-  <A extends Parser, B extends Parser[]>(
-    parsers: [A, ...B],
-  ): Parser<[Infer<A>, ...InferTuple<B>]> =>
-  (input) => {
-    if (!isArray(input)) return Err(typeErr("array", input));
-    const arr = new Array(parsers.length);
-    for (let i = 0; i < parsers.length; i++) {
-      const res = parsers[i](input[i]);
+ * @param { TupleOptions<R> } [options] - Optional configuration options.
+ * @returns { Parser<InferTupleWithRest<[A, ...B], R>> } - A new parser that produces a tuple with the results of each parser in the array.
+ */
+export const tuple = <
+  A extends Parser,
+  B extends Parser[],
+  R extends Parser | undefined = undefined,
+>(
+  parsers: [A, ...B],
+  options: TupleOptions<R> = {},
+): Parser<InferTupleWithRest<[A, ...B], R>> => {
+  const { rest } = options;
+  const checks = rest ? [] : arrayChecks({ maxItems: parsers.length });
+  return define({ kind: "tuple", parsers, rest }, (input, opts) => {
+    if (!isArray(input)) return Err(typeErr("array", input, opts));
+    const checked = runChecks(checks, input, opts);
+    if (checked.isErr() && shouldAbort(opts)) {
+      return checked as Result<never, ParseError>;
+    }
+    const arr = new Array(
+      rest ? Math.max(input.length, parsers.length) : parsers.length,
+    );
+    const errors: ParseError[] = checked.isErr()
+      ? [...leafErrors(checked.unwrapErr())]
+      : [];
+    for (let i = 0; i < arr.length; i++) {
+      const parser = i < parsers.length ? parsers[i] : (rest as Parser);
+      const res = parser(input[i], opts);
       if (res.isErr()) {
-        const err = res.unwrapErr();
-        err.path.unshift(i.toString());
-        return Err(err);
+        const err = prependPath(res.unwrapErr(), i.toString());
+        if (shouldAbort(opts)) return Err(err);
+        errors.push(...leafErrors(err));
+        continue;
       }
       arr[i] = res.unwrap();
     }
+    if (errors.length > 0) {
+      return Err(
+        localize(new AggregateParseError(errors, Type.Array, input), opts),
+      );
+    }
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return Ok(arr as any);
-  };
+  });
+};
 
 /**
  * A parser that attempts to match the input with one of several parsers in an ordered list of parsers.
@@ -403,28 +1659,207 @@ export const tuple =
  * @param {readonly [A, B, ...B]} parsers An ordered list of parsers to attempt to match the input against.
  * @returns {Parser<InferTuple<[A, B, ...C]>>} A parser that returns the value parsed by the first parser to match the input.
  */
-export const union =
-  <A extends Parser, B extends Parser[]>(
-    parsers: [A, ...B],
-  ): Parser<Infer<A> | InferTuple<B>[number]> =>
-  (input) => {
+export const union = <A extends Parser, B extends Parser[]>(
+  parsers: [A, ...B],
+): Parser<Infer<A> | InferTuple<B>[number]> =>
+  define({ kind: "union", parsers }, (input, opts) => {
+    const errors: ParseError[] = [];
     for (const parser of parsers) {
-      const res = parser(input);
+      const res = parser(input, opts);
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       if (res.isOk()) return res as any;
+      errors.push(res.unwrapErr());
     }
-    return Err(typeErr(parsers.map((s) => s.name).join(" | "), input));
-  };
+    return Err(
+      typeErr(
+        parsers.map((p) => expectedOf(p)).join(" | "),
+        input,
+        opts,
+        "invalid_union",
+        {
+          errors,
+        },
+      ),
+    );
+  });
+
+/**
+ * The InferDiscriminated type extracts the output type of a discriminated union, where each branch is tagged with its key.
+ * @template {string} K - The name of the discriminator property.
+ * @template {Record<string, Parser<PlainObject>>} M - The branches of the union, keyed by tag.
+ */
+export type InferDiscriminated<
+  K extends string,
+  M extends Record<string, Parser<PlainObject>>,
+> = { [T in keyof M]: Infer<M[T]> & { [P in K]: T } }[keyof M];
+
+/**
+ * A parser that reads the `key` property of the input and parses the input with the branch registered for that tag.
+ * If the tag is known, any error comes from that branch alone and keeps its nested path. Branches that do not declare
+ * the key are given the input without it, so that a strict branch does not reject the tag as an unknown key.
+ * If the tag is missing or unknown, the error points at `key` and lists every valid tag.
+ *
+ * @template K The name of the discriminator property.
+ * @template M The branches of the union, keyed by tag.
+ * @param {K} key The name of the discriminator property.
+ * @param {M} branches An object mapping each tag to the parser for that branch.
+ * @returns {Parser<InferDiscriminated<K, M>>} A parser that returns the value parsed by the matching branch, with the tag set on it.
+ */
+export const discriminatedUnion = <
+  K extends string,
+  M extends Record<string, Parser<PlainObject>>,
+>(
+  key: K,
+  branches: M,
+): Parser<InferDiscriminated<K, M>> => {
+  const tags = Object.keys(branches);
+  const expected = tags.map((tag) => `'${tag}'`).join(" | ");
+  // Branches that do not declare the key are given the input without it, so that strict branches accept the tag.
+  const declaresKey = (parser: Parser): boolean =>
+    flattenIntersection([parser]).some((member) => {
+      const desc = describe(member);
+      return (
+        desc.kind === "object" &&
+        Object.prototype.hasOwnProperty.call(desc.shape, key)
+      );
+    });
+  const declared = new Set(tags.filter((tag) => declaresKey(branches[tag])));
+  return define(
+    { kind: "discriminatedUnion", key, branches },
+    (input, opts) => {
+      if (!isPlainObject(input)) return Err(typeErr(Type.Object, input, opts));
+      const tag = input[key];
+      if (
+        !isString(tag) ||
+        !Object.prototype.hasOwnProperty.call(branches, tag)
+      ) {
+        const actual = isString(tag) ? `'${tag}'` : getTypeOf(tag);
+        return Err(
+          localize(
+            new ParseError(
+              `Expected one of ${expected}, received ${actual}`,
+              expected,
+              actual,
+              tag,
+              [key],
+              "invalid_discriminator",
+              { key, options: tags },
+            ),
+            opts,
+          ),
+        );
+      }
+      let branchInput = input;
+      if (!declared.has(tag)) {
+        branchInput = Object.assign(Object.create(null), input);
+        delete branchInput[key];
+      }
+      return branches[tag](branchInput, opts).map((value) =>
+        Object.assign(Object.create(null), value, { [key]: tag }),
+      );
+    },
+  );
+};
+
+/**
+ * Returns a parser that defers to the parser returned by `getter`, which is called the first time the parser is used.
+ * This allows a parser to reference itself, or a parser that is defined later. TypeScript cannot infer recursive types,
+ * so the type of a recursive parser has to be declared:
+ *
+ * ```ts
+ * type Node = { value: number; children: Node[] };
+ * const node: Parser<Node> = object({ value: number(), children: array(lazy(() => node)) });
+ * ```
+ *
+ * If the same object is found again while it is still being parsed, the parser returns an error instead of recursing forever.
+ *
+ * @template T - The type of the parsed value.
+ * @param {() => Parser<T>} getter - A function that returns the parser to defer to.
+ * @returns {Parser<T>} A parser that parses the input with the parser returned by `getter`.
+ */
+export const lazy = <T>(getter: () => Parser<T>): Parser<T> => {
+  let parser: Parser<T> | undefined;
+  const active = new Set<object>();
+  return define({ kind: "lazy", getter }, (input, opts) => {
+    parser ??= getter();
+    if (!isObject(input) || input === null) return parser(input, opts);
+    if (active.has(input)) {
+      const actual = getTypeOf(input);
+      return Err(
+        localize(
+          new ParseError(
+            `Type '${actual}' contains a circular reference`,
+            "acyclic value",
+            actual,
+            input,
+            [],
+            "circular_reference",
+          ),
+          opts,
+        ),
+      );
+    }
+    active.add(input);
+    try {
+      return parser(input, opts);
+    } finally {
+      active.delete(input);
+    }
+  });
+};
 
 /**
  * A parser that returns the input value as is, without attempting to parse it.
  *
  * @type {Parser<unknown>}
  */
-export const unknown: Parser<unknown> = (input) => Ok(input);
+export const unknown: Parser<unknown> = define({ kind: "unknown" }, (input) =>
+  Ok(input),
+);
 
-export const list = <T>(parser: Parser<T>): Parser<List<T>> =>
-  map(array(parser), (value) => Ok(List.from(value)));
+export const list = <T>(
+  parser: Parser<T>,
+  options: ArrayOptions = {},
+): Parser<List<T>> =>
+  define(
+    { kind: "list", parser, constraints: constraintsOf(arrayChecks(options)) },
+    map(array(parser, options), (value) => Ok(List.from(value))),
+  );
+
+/**
+ * Returns a string parser for a format. The input string is normalized before it is checked,
+ * and the normalized string is returned.
+ *
+ * @param {StringFormat} name - The name of the format, used as the expected type of errors.
+ * @param {(s: string) => string} normalize - The normalization applied to the input.
+ * @param {(s: string) => boolean} test - The check for the format.
+ * @param {number[]} [versions] - The versions of the format that are accepted, for the descriptor.
+ * @returns {Parser<string>} A parser that returns the normalized string if it is in the format, or an error otherwise.
+ */
+const format = (
+  name: StringFormat,
+  normalize: (s: string) => string,
+  test: (s: string) => boolean,
+  versions?: number[],
+): Parser<string> =>
+  define(
+    {
+      kind: "string",
+      coerce: false,
+      format: name,
+      constraints: [],
+      ...(versions && { versions }),
+    },
+    map(chain(string(), normalize), (v, opts) =>
+      test(v)
+        ? Ok(v)
+        : Err(typeErr(name, v, opts, "invalid_format", { format: name })),
+    ),
+  );
+
+const trim = (s: string) => s.trim();
+const trimLower = (s: string) => s.trim().toLowerCase();
+const trimUpper = (s: string) => s.trim().toUpperCase();
 
 /**
  * Returns a `Parser` that parses an email address string.
@@ -434,14 +1869,150 @@ export const list = <T>(parser: Parser<T>): Parser<List<T>> =>
  *
  * @returns {Parser<string>} - A `Parser` that parses an email address string.
  */
-export const email = (): Parser<string> =>
-  map(
-    chain(string(), (s) => s.trim().toLowerCase()),
-    (v) => (isEmail(v) ? Ok(v) : Err(typeErr("email", v))),
-  );
+export const email = (): Parser<string> => format("email", trimLower, isEmail);
 
-export const uuid = (): Parser<string> =>
-  map(
-    chain(string(), (s) => s.trim().toUpperCase()),
-    (v) => (isUUID(v) ? Ok(v) : Err(typeErr("uuid", v))),
+/**
+ * Returns a `Parser` that parses a UUID string.
+ * The input string is trimmed and converted to uppercase before being passed to `isUUID`.
+ *
+ * @param {Object} [opts] - Optional configuration options.
+ * @param {UUIDVersion | UUIDVersion[]} [opts.version] - The versions to accept, such as `4` or `[4, 7]`. Default: version 4 only.
+ * @returns {Parser<string>} - A `Parser` that parses a UUID string.
+ */
+export const uuid = (opts?: {
+  version?: UUIDVersion | UUIDVersion[];
+}): Parser<string> => {
+  const version = opts?.version;
+  const versions = isArray(version)
+    ? version
+    : version !== undefined
+    ? [version]
+    : undefined;
+  return format("uuid", trimUpper, (v) => isUUID(v, versions), versions);
+};
+
+/**
+ * Returns a `Parser` that parses an absolute URL string, such as `https://example.com/path`.
+ * The input string is trimmed before it is checked.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses a URL string.
+ */
+export const url = (): Parser<string> => format("url", trim, isURL);
+
+/**
+ * Returns a `Parser` that parses a hostname, such as `example.com`.
+ * The input string is trimmed and converted to lowercase before it is checked.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses a hostname.
+ */
+export const hostname = (): Parser<string> =>
+  format("hostname", trimLower, isHostname);
+
+/**
+ * Returns a `Parser` that parses an IPv4 or IPv6 address.
+ * The input string is trimmed and converted to lowercase before it is checked.
+ *
+ * @param {Object} [opts] - Optional configuration options.
+ * @param {4 | 6} [opts.version] - The IP version to accept. Default: both.
+ * @returns {Parser<string>} - A `Parser` that parses an IP address.
+ */
+export const ip = (opts?: { version?: 4 | 6 }): Parser<string> => {
+  const version = opts?.version;
+  return format("ip", trimLower, (v) => isIP(v, version), version && [version]);
+};
+
+/**
+ * Returns a `Parser` that parses a CIDR block, such as `10.0.0.0/8` or `2001:db8::/32`.
+ * The input string is trimmed and converted to lowercase before it is checked.
+ *
+ * @param {Object} [opts] - Optional configuration options.
+ * @param {4 | 6} [opts.version] - The IP version to accept. Default: both.
+ * @returns {Parser<string>} - A `Parser` that parses a CIDR block.
+ */
+export const cidr = (opts?: { version?: 4 | 6 }): Parser<string> => {
+  const version = opts?.version;
+  return format(
+    "cidr",
+    trimLower,
+    (v) => isCIDR(v, version),
+    version && [version],
   );
+};
+
+/**
+ * Returns a `Parser` that parses an ISO 8601 calendar date string, such as `2024-02-29`.
+ * The input string is trimmed before it is checked. The output is a string; use `date` to get a `Date`.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses an ISO 8601 date string.
+ */
+export const isoDate = (): Parser<string> => format("date", trim, isISODate);
+
+/**
+ * Returns a `Parser` that parses an ISO 8601 time string, such as `13:45:30Z`.
+ * The input string is trimmed and converted to uppercase before it is checked.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses an ISO 8601 time string.
+ */
+export const isoTime = (): Parser<string> =>
+  format("time", trimUpper, isISOTime);
+
+/**
+ * Returns a `Parser` that parses an ISO 8601 date and time string, such as `2024-02-29T13:45:30Z`.
+ * The input string is trimmed and converted to uppercase before it is checked. The output is a string; use `date` to get a `Date`.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses an ISO 8601 date and time string.
+ */
+export const isoDateTime = (): Parser<string> =>
+  format("date-time", trimUpper, isISODateTime);
+
+/**
+ * Returns a `Parser` that parses an ISO 8601 duration string, such as `P1Y2M10DT2H30M`.
+ * The input string is trimmed and converted to uppercase before it is checked.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses an ISO 8601 duration string.
+ */
+export const isoDuration = (): Parser<string> =>
+  format("duration", trimUpper, isISODuration);
+
+/**
+ * Returns a `Parser` that parses a ULID string.
+ * The input string is trimmed and converted to uppercase before it is checked.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses a ULID string.
+ */
+export const ulid = (): Parser<string> => format("ulid", trimUpper, isULID);
+
+/**
+ * Returns a `Parser` that parses a semantic version string, such as `1.2.3-beta.1`.
+ * The input string is trimmed before it is checked.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses a semantic version string.
+ */
+export const semver = (): Parser<string> => format("semver", trim, isSemVer);
+
+/**
+ * Returns a `Parser` that parses a hex color string, such as `#ff8800`.
+ * The input string is trimmed and converted to lowercase before it is checked.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses a hex color string.
+ */
+export const hexColor = (): Parser<string> =>
+  format("hex-color", trimLower, isHexColor);
+
+/**
+ * Returns a `Parser` that parses a padded base64 string.
+ * The input string is trimmed before it is checked.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses a base64 string.
+ */
+export const base64 = (): Parser<string> => format("base64", trim, isBase64);
+
+/**
+ * Returns a `Parser` that parses an E.164 phone number, such as `+14155552671`.
+ * The input string is trimmed and stripped of spaces, dashes, dots and parentheses before it is checked,
+ * so `+1 (415) 555-2671` is returned as `+14155552671`.
+ *
+ * @returns {Parser<string>} - A `Parser` that parses an E.164 phone number.
+ */
+export const e164 = (): Parser<string> =>
+  format("e164", (s) => s.replace(/[\s.()-]/g, ""), isE164);
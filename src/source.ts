@@ -0,0 +1,355 @@
+import type { ParseError } from "./errors";
+import { AggregateParseError } from "./errors";
+import { isArray } from "./guards";
+import type { ParseOptions, Parser } from "./parsing";
+import type { Result } from "./result";
+import { Err, Ok } from "./result";
+import type { PlainObject } from "./types";
+
+/**
+ * A position in a text.
+ * @property {number} offset - The index of the character, counting from 0.
+ * @property {number} line - The line of the character, counting from 1.
+ * @property {number} column - The column of the character in its line, counting from 1.
+ */
+export type SourcePosition = {
+  offset: number;
+  line: number;
+  column: number;
+};
+
+/**
+ * The part of a text a value was read from.
+ * @property {SourcePosition} start - The position of the first character of the value.
+ * @property {SourcePosition} end - The position just after the last character of the value.
+ */
+export type SourceLocation = {
+  start: SourcePosition;
+  end: SourcePosition;
+};
+
+/**
+ * The offsets of a value in the text, of its key when it is the property of an object,
+ * and the spans of the values it contains, by key or array index.
+ */
+type Span = {
+  start: number;
+  end: number;
+  key?: [start: number, end: number];
+  children?: Map<string, Span>;
+};
+
+/**
+ * An object or array being read, and the key of the value being read in it.
+ */
+type Frame = {
+  container: PlainObject | unknown[];
+  span: Span & { children: Map<string, Span> };
+  key: string;
+  keySpan?: [start: number, end: number];
+};
+
+/**
+ * The JsonSyntaxError type is returned for text that is not valid JSON. Unlike the `SyntaxError` of `JSON.parse`,
+ * its message is the same in every engine and tells the line and column of the error.
+ * @property {SourcePosition} position - Where the error is.
+ */
+export class JsonSyntaxError extends SyntaxError {
+  constructor(reason: string, public readonly position: SourcePosition) {
+    super(`${reason} at line ${position.line}, column ${position.column}`);
+  }
+}
+
+/**
+ * Returns the offset of the start of every line of a text.
+ */
+const lineStarts = (text: string): number[] => {
+  const starts = [0];
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+    starts.push(i + 1);
+  }
+  return starts;
+};
+
+/**
+ * Returns the line and column of an offset, given the offsets where lines start.
+ */
+const toPosition = (starts: number[], offset: number): SourcePosition => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return { offset, line: low + 1, column: offset - starts[low] + 1 };
+};
+
+/**
+ * A JSON document parsed with `parseJsonSource`: its value, and where each of the values it contains was read from.
+ * @property {string} text - The JSON text.
+ * @property {unknown} value - The parsed value, the same as `JSON.parse` returns.
+ */
+export class JsonSource {
+  readonly #root: Span;
+  #starts?: number[];
+
+  constructor(
+    public readonly text: string,
+    public readonly value: unknown,
+    root: Span,
+  ) {
+    this.#root = root;
+  }
+
+  /**
+   * Returns where the value at a path was read from.
+   *
+   * @param path - The keys and array indexes leading to the value, as in the `path` of a `ParseError`.
+   * @param part - Whether to locate the value, or the key of the property the value belongs to.
+   * @returns The location, or `undefined` if there is no value at the path, or no key for it.
+   */
+  locate(
+    path: string[],
+    part: "value" | "key" = "value",
+  ): SourceLocation | undefined {
+    let span: Span | undefined = this.#root;
+    for (const key of path) span = span?.children?.get(key);
+    const [start, end] =
+      part === "key" ? span?.key ?? [] : span ? [span.start, span.end] : [];
+    if (start === undefined || end === undefined) return undefined;
+    this.#starts ??= lineStarts(this.text);
+    return {
+      start: toPosition(this.#starts, start),
+      end: toPosition(this.#starts, end),
+    };
+  }
+}
+
+const WHITESPACE = " \t\n\r";
+const ESCAPES = '"\\/bfnrt';
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const HEX = /^[0-9a-fA-F]{4}$/;
+const LITERALS: [string, unknown][] = [
+  ["true", true],
+  ["false", false],
+  ["null", null],
+];
+
+/**
+ * Parses a JSON text like `JSON.parse`, and keeps the offsets of every value it contains and of every key,
+ * so that they can be located in the text with `JsonSource.locate`. Values are read with a stack rather than
+ * by recursion, so values nested to any depth are parsed.
+ *
+ * @param json - The JSON text.
+ * @returns An Ok result with the parsed document, or an Err result with a `JsonSyntaxError` if the text is not valid JSON.
+ */
+export const parseJsonSource = (
+  json: string,
+): Result<JsonSource, JsonSyntaxError> => {
+  let pos = 0;
+
+  const fail = (reason: string, at = pos): never => {
+    throw new JsonSyntaxError(reason, toPosition(lineStarts(json), at));
+  };
+
+  const unexpected = (): never =>
+    pos < json.length
+      ? fail(`Unexpected token '${json[pos]}'`)
+      : fail("Unexpected end of JSON input");
+
+  const skip = () => {
+    while (pos < json.length && WHITESPACE.includes(json[pos])) pos++;
+  };
+
+  const expect = (char: string) => {
+    skip();
+    if (json[pos] !== char) unexpected();
+    pos++;
+  };
+
+  const string = (): string => {
+    const start = pos++;
+    for (;;) {
+      if (pos >= json.length) fail("Unterminated string", start);
+      const char = json[pos];
+      if (char === '"') break;
+      if (char < " ") fail("Bad control character in string");
+      if (char === "\\") {
+        const next = json[pos + 1] ?? "";
+        if (next !== "" && ESCAPES.includes(next)) {
+          pos += 2;
+        } else if (next === "u" && HEX.test(json.slice(pos + 2, pos + 6))) {
+          pos += 6;
+        } else {
+          fail("Bad escaped character in string");
+        }
+      } else {
+        pos++;
+      }
+    }
+    pos++;
+    return JSON.parse(json.slice(start, pos));
+  };
+
+  const primitive = (): unknown => {
+    for (const [word, literal] of LITERALS) {
+      if (json.startsWith(word, pos)) {
+        pos += word.length;
+        return literal;
+      }
+    }
+    NUMBER.lastIndex = pos;
+    const match = NUMBER.exec(json);
+    if (!match) return unexpected();
+    pos += match[0].length;
+    return Number(match[0]);
+  };
+
+  // Reads the key of the next value of an object or array.
+  const next = (frame: Frame) => {
+    if (isArray(frame.container)) {
+      frame.key = String(frame.container.length);
+      return;
+    }
+    skip();
+    if (json[pos] !== '"') unexpected();
+    const keyStart = pos;
+    frame.key = string();
+    frame.keySpan = [keyStart, pos];
+    expect(":");
+  };
+
+  const add = (frame: Frame, item: unknown, span: Span) => {
+    const { container, key } = frame;
+    frame.span.children.set(key, span);
+    if (isArray(container)) {
+      container.push(item);
+      return;
+    }
+    span.key = frame.keySpan;
+    if (key === "__proto__") {
+      Object.defineProperty(container, key, {
+        value: item,
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    } else {
+      container[key] = item;
+    }
+  };
+
+  const value = (): [unknown, Span] => {
+    const stack: Frame[] = [];
+    for (;;) {
+      skip();
+      const start = pos;
+      const char = json[pos];
+      let item: unknown;
+      let span: Span;
+      if (char === "{" || char === "[") {
+        const container: PlainObject | unknown[] = char === "{" ? {} : [];
+        pos++;
+        skip();
+        if (json[pos] === (char === "{" ? "}" : "]")) {
+          pos++;
+          item = container;
+          span = { start, end: pos };
+        } else {
+          const frame: Frame = {
+            container,
+            span: { start, end: pos, children: new Map() },
+            key: "",
+          };
+          stack.push(frame);
+          next(frame);
+          continue;
+        }
+      } else {
+        item = char === '"' ? string() : primitive();
+        span = { start, end: pos };
+      }
+      // Adds the value to its container, and closes the containers that end after it.
+      for (;;) {
+        const frame = stack[stack.length - 1];
+        if (!frame) return [item, span];
+        add(frame, item, span);
+        skip();
+        if (json[pos] !== (isArray(frame.container) ? "]" : "}")) break;
+        pos++;
+        stack.pop();
+        item = frame.container;
+        span = frame.span;
+        span.end = pos;
+      }
+      expect(",");
+      next(stack[stack.length - 1]);
+    }
+  };
+
+  try {
+    const [result, root] = value();
+    skip();
+    if (pos < json.length) unexpected();
+    return Ok(new JsonSource(json, result, root));
+  } catch (err) {
+    if (err instanceof JsonSyntaxError) return Err(err);
+    throw err;
+  }
+};
+
+/**
+ * Returns where the value an error is about was read from. Errors about a missing value point at the object
+ * or array that lacks it, and errors about an unknown key point at the key.
+ *
+ * @param source - The parsed document.
+ * @param err - The error to locate.
+ * @returns The location, or `undefined` if the path of the error is not in the document.
+ */
+const locateError = (
+  source: JsonSource,
+  err: ParseError,
+): SourceLocation | undefined => {
+  if (err.code === "unrecognized_key") {
+    const key = source.locate(err.path, "key");
+    if (key) return key;
+  }
+  for (let length = err.path.length; length >= 0; length--) {
+    const location = source.locate(err.path.slice(0, length));
+    if (location) return location;
+  }
+  return undefined;
+};
+
+/**
+ * Parses a JSON text with `parseJsonSource` and runs a parser on its value, like `parseJson`. Every leaf error of
+ * a failed validation has a `location`, the part of the text it is about, so that it can be shown to the user
+ * as an editor would. Syntax errors are `JsonSyntaxError`s, with the line and column of the error.
+ *
+ * @example
+ * parseJsonWithLocations(text, Config).mapErr((err) =>
+ *   err instanceof JsonSyntaxError ? err.message : formatError(err),
+ * );
+ *
+ * @template T - The type of the parsed value.
+ * @param json - The JSON text.
+ * @param parser - The parser to run on the value.
+ * @param opts - The options passed to the parser.
+ * @returns The result of the parser, or an Err result with a `JsonSyntaxError`.
+ */
+export const parseJsonWithLocations = <T>(
+  json: string,
+  parser: Parser<T>,
+  opts?: ParseOptions,
+): Result<T, ParseError | JsonSyntaxError> => {
+  const source = parseJsonSource(json);
+  if (source.isErr()) return Err(source.unwrapErr());
+  const doc = source.unwrap();
+  return parser(doc.value, opts).mapErr((err) => {
+    const errors =
+      err instanceof AggregateParseError ? [err, ...err.errors] : [err];
+    for (const e of errors) e.location = locateError(doc, e);
+    return err;
+  });
+};
@@ -0,0 +1,206 @@
+import type { ParseError } from "./errors";
+import type { ParseOptions, Parser } from "./parsing";
+import type { Result } from "./result";
+import { Err, Ok } from "./result";
+import { parseJson } from "./util";
+
+/**
+ * A chunk of a stream: text, or bytes encoded as UTF-8.
+ */
+export type StreamChunk = string | Uint8Array;
+
+/**
+ * The part of a web `ReadableStream` that is read from, so that streams from any runtime can be passed.
+ */
+export type ReadableStreamLike<T> = {
+  getReader(): {
+    read(): Promise<{ done: boolean; value?: T }>;
+    releaseLock(): void;
+  };
+};
+
+/**
+ * A stream to read records from, such as a Node.js readable stream, the body of a `fetch` response,
+ * or any async iterable of strings or bytes.
+ */
+export type StreamSource =
+  | AsyncIterable<StreamChunk>
+  | ReadableStreamLike<StreamChunk>;
+
+/**
+ * Options for `parseJsonStream`. The parse options are passed to the parser of each record.
+ * @property {"ndjson" | "json-seq"} [format="ndjson"] - How records are separated: by newlines (NDJSON, JSON Lines),
+ * or by the record separator character `\x1E` (JSON text sequences, RFC 7464).
+ * @property {"continue" | "stop" | "skip"} [onError="continue"] - What to do with a record that is not valid JSON or is
+ * rejected by the parser: yield its error and go on, yield its error and stop, or leave it out and go on.
+ * @property {number} [maxLength=16777216] - The length in characters above which a record is not kept in memory.
+ * Such a record gives a `SyntaxError` instead of being parsed.
+ */
+export type JsonStreamOptions = ParseOptions & {
+  format?: "ndjson" | "json-seq";
+  onError?: "continue" | "stop" | "skip";
+  maxLength?: number;
+};
+
+/**
+ * A record read from a stream.
+ * @property {number} line - The number of the line the record starts on, counting from 1.
+ * @property {Result<T, ParseError | SyntaxError>} result - The parsed record, or a `SyntaxError` if it is not valid JSON,
+ * or the error of the parser.
+ */
+export type JsonRecord<T> = {
+  line: number;
+  result: Result<T, ParseError | SyntaxError>;
+};
+
+const RECORD_SEPARATOR = "\x1e";
+const DEFAULT_MAX_LENGTH = 16 * 1024 * 1024;
+
+const isReadableStream = (
+  source: StreamSource,
+): source is ReadableStreamLike<StreamChunk> => "getReader" in source;
+
+const countLines = (text: string): number => {
+  let count = 0;
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+    count++;
+  }
+  return count;
+};
+
+/**
+ * Reads the chunks of a web `ReadableStream`, and releases its reader when done or when the caller stops early.
+ */
+async function* readChunks<T>(stream: ReadableStreamLike<T>) {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      if (value !== undefined) yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Splits a stream into the text of its records. Only the record being read is kept in memory, up to `maxLength`
+ * characters; the rest of a longer record is dropped, and the record gives an error.
+ *
+ * @param source - The stream to read.
+ * @param separator - The character that ends a record.
+ * @param maxLength - The length above which a record is dropped.
+ * @returns The line each non-blank record starts on, and its text.
+ */
+async function* readRecords(
+  source: StreamSource,
+  separator: string,
+  maxLength: number,
+): AsyncGenerator<[line: number, text: Result<string, SyntaxError>]> {
+  const decoder = new TextDecoder();
+  let parts: string[] = [];
+  let length = 0;
+  let overflow = false;
+  let start = 1;
+  let line = 1;
+
+  const append = (text: string) => {
+    if (separator !== "\n") line += countLines(text);
+    if (overflow) return;
+    length += text.length;
+    if (length > maxLength) {
+      overflow = true;
+      parts = [];
+    } else {
+      parts.push(text);
+    }
+  };
+
+  const take = (): Result<string, SyntaxError> | undefined => {
+    const text = parts.join("");
+    const record: Result<string, SyntaxError> | undefined = overflow
+      ? Err(
+          new SyntaxError(
+            `Record at line ${start} is longer than ${maxLength} characters`,
+          ),
+        )
+      : text.trim() === ""
+      ? undefined
+      : Ok(text);
+    parts = [];
+    length = 0;
+    overflow = false;
+    return record;
+  };
+
+  const chunks = isReadableStream(source) ? readChunks(source) : source;
+  for await (const chunk of chunks) {
+    const text =
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    let from = 0;
+    for (
+      let i = text.indexOf(separator);
+      i !== -1;
+      i = text.indexOf(separator, from)
+    ) {
+      append(text.slice(from, i));
+      const record = take();
+      if (record) yield [start, record];
+      if (separator === "\n") line++;
+      start = line;
+      from = i + 1;
+    }
+    append(text.slice(from));
+  }
+  append(decoder.decode());
+  const record = take();
+  if (record) yield [start, record];
+}
+
+/**
+ * Parses a stream of JSON records, such as an NDJSON export or a log file, and yields each record as soon as it is read.
+ * The stream may be an async iterable of strings or UTF-8 bytes, such as a Node.js readable stream, or a web `ReadableStream`.
+ * Blank lines are left out, and only the record being read is kept in memory, so streams of any size can be parsed.
+ *
+ * Each record gives a `Result`: the output of the parser, a `SyntaxError` if the record is not valid JSON, or the error
+ * of the parser, whose path is relative to the record. The line number of the record tells where it came from.
+ * Stopping the iteration early, with `break` or `onError: "stop"`, stops reading the stream.
+ *
+ * @example
+ * for await (const { line, result } of parseJsonStream(fs.createReadStream("events.ndjson"), Event)) {
+ *   result.match(handle, (err) => console.error(`line ${line}: ${err.message}`));
+ * }
+ *
+ * @template T - The type of the parsed records.
+ * @param source - The stream to read.
+ * @param parser - The parser of each record.
+ * @param opts - Optional configuration options.
+ * @returns An async iterable of the parsed records.
+ */
+export async function* parseJsonStream<T>(
+  source: StreamSource,
+  parser: Parser<T>,
+  opts: JsonStreamOptions = {},
+): AsyncGenerator<JsonRecord<T>, void, undefined> {
+  const {
+    format = "ndjson",
+    onError = "continue",
+    maxLength = DEFAULT_MAX_LENGTH,
+    ...parseOpts
+  } = opts;
+  const separator = format === "ndjson" ? "\n" : RECORD_SEPARATOR;
+  for await (const [line, text] of readRecords(source, separator, maxLength)) {
+    const result: Result<T, ParseError | SyntaxError> = text.isOk()
+      ? (parseJson(text.unwrap(), parser, parseOpts) as Result<
+          T,
+          ParseError | SyntaxError
+        >)
+      : Err(text.unwrapErr());
+    if (result.isErr() && onError === "skip") continue;
+    yield { line, result };
+    if (result.isErr() && onError === "stop") return;
+  }
+}
@@ -37,3 +37,26 @@ export type Primitive =
  * A type that represents literal values in TypeScript.
  */
 export type Literal = string | number | boolean | null;
+
+declare const brand: unique symbol;
+
+/**
+ * A type that represents a value of type T tagged with the nominal brand B, such as a string that is a valid email address.
+ * A plain T is not assignable to it, so a branded value can only come from a parser made with `z.brand`,
+ * or from `z.unsafeBrand`. A value may carry several brands.
+ *
+ * @template T - The type of the value.
+ * @template B - The name of the brand.
+ */
+export type Brand<T, B extends string> = T & {
+  readonly [brand]: { [K in B]: T };
+};
+
+/**
+ * A type that represents the value of a branded type without its brands.
+ *
+ * @template T - The branded type.
+ */
+export type Unbrand<T> = T extends { readonly [brand]: infer Tags }
+  ? Tags[keyof Tags]
+  : T;
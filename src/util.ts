@@ -1,4 +1,4 @@
-import type { ParseError, Parser } from "./parsing";
+import type { ParseError, ParseOptions, Parser } from "./parsing";
 import { Result } from "./result";
 
 /**
@@ -37,12 +37,13 @@ type JsonParseError = SyntaxError | TypeError | RangeError;
 export const parseJson = <T>(
   json: string,
   parser: Parser<T>,
+  opts?: ParseOptions,
 ): Result<T, JsonParseError | ParseError> => {
   const result = Result.from(() => JSON.parse(json)) as Result<
     unknown,
     JsonParseError
   >;
-  return result.andThen(parser);
+  return result.andThen((value) => parser(value, opts));
 };
 
 export enum Type {
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { GenerateError, check, generate, sample, shrink, z } from "../src";
+
+const user = z.object({
+  id: z.uuid(),
+  email: z.email(),
+  age: z.number({ min: 18, max: 99, multipleOf: 1 }),
+  score: z.number({ min: 0, max: 1, multipleOf: 0.1 }),
+  tags: z.array(z.string({ pattern: /^[a-z]{2,4}$/ }), { maxItems: 3 }),
+  role: z.union([z.literal("admin"), z.literal("user")]),
+  bio: z.optional(z.string()),
+});
+
+const numbers = z.array(z.number({ min: 0, max: 1000, multipleOf: 1 }));
+
+describe("generate", () => {
+  it("generates values that the parser accepts", () => {
+    for (const value of sample(user, 50, { seed: 1 })) {
+      expect(user(value).isOk()).toBe(true);
+    }
+  });
+
+  it("generates the same values for the same seed", () => {
+    expect(generate(user, { seed: 42 })).toEqual(generate(user, { seed: 42 }));
+  });
+
+  it("throws a GenerateError for parsers it cannot generate", () => {
+    const custom = z.object({ a: (input: unknown) => z.string()(input) });
+    expect(() => generate(custom, { seed: 1 })).toThrow(GenerateError);
+    expect(() =>
+      generate(
+        z.refine(z.number(), () => false, { name: "never", message: "Never" }),
+        { seed: 1, maxAttempts: 5 },
+      ),
+    ).toThrow(GenerateError);
+  });
+});
+
+describe("shrink", () => {
+  it("shrinks a failing value to a minimal one", () => {
+    expect(
+      shrink(numbers, [3, 500, 7, 800], (v) =>
+        (v as number[]).some((n) => n >= 100),
+      ),
+    ).toEqual([100]);
+  });
+});
+
+describe("check", () => {
+  it("returns the number of runs when the property holds", () => {
+    expect(
+      check(user, (u) => u.age >= 18, { seed: 1, runs: 20 }).unwrap(),
+    ).toBe(20);
+  });
+
+  it("returns a shrunk counterexample when the property fails", () => {
+    const err = check(numbers, (arr) => arr.every((n) => n < 100), {
+      seed: 1,
+    }).unwrapErr();
+    expect(err.value).toEqual([100]);
+    expect(generate(numbers, { seed: err.seed })).toEqual(err.original);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+
+import type { Result } from "../src";
+import { Err, Ok, z, za } from "../src";
+import { leafErrors } from "../src/errors";
+
+/**
+ * An in-memory stand-in for a user store, which records how many lookups are pending at the same time.
+ */
+const createStore = (names: string[], delay = 5) => {
+  const taken = new Set(names);
+  const stats = { pending: 0, maxPending: 0, calls: 0 };
+  const isFree = async (name: string) => {
+    stats.calls++;
+    stats.pending++;
+    stats.maxPending = Math.max(stats.maxPending, stats.pending);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    stats.pending--;
+    return !taken.has(name);
+  };
+  return { isFree, stats };
+};
+
+describe("za.refine", () => {
+  it("checks the output of a parser with an async predicate", async () => {
+    const { isFree } = createStore(["taken"]);
+    const username = za.refine(z.string(), isFree, {
+      name: "available",
+      message: "Username is taken",
+    });
+    expect((await username("free")).unwrap()).toBe("free");
+    const err = (await username("taken")).unwrapErr();
+    expect(err.code).toBe("constraint");
+    expect(err.message).toBe("Username is taken");
+    expect((await username(1)).unwrapErr().code).toBe("invalid_type");
+  });
+});
+
+describe("za.object", () => {
+  it("mixes sync and async children", async () => {
+    const { isFree } = createStore(["taken"]);
+    const signup = za.object({
+      username: za.refine(z.string(), isFree),
+      age: z.number({ int: true }),
+      nickname: z.maybe(z.string()),
+    });
+    expect((await signup({ username: "a", age: 3 })).unwrap()).toEqual({
+      username: "a",
+      age: 3,
+    });
+    expect(
+      (await signup({ username: "a", age: 3.5 })).unwrapErr().path,
+    ).toEqual(["age"]);
+  });
+
+  it("runs independent fields in parallel", async () => {
+    const { isFree, stats } = createStore([]);
+    const names = za.object({
+      a: za.refine(z.string(), isFree),
+      b: za.refine(z.string(), isFree),
+      c: za.refine(z.string(), isFree),
+    });
+    await names({ a: "a", b: "b", c: "c" });
+    expect(stats.maxPending).toBe(3);
+  });
+
+  it("collects every error without abortEarly", async () => {
+    const { isFree } = createStore(["x", "y"]);
+    const names = za.object({
+      a: za.refine(z.string(), isFree),
+      b: za.refine(z.string(), isFree),
+      c: z.number(),
+    });
+    const err = (
+      await names({ a: "x", b: "y", c: "z" }, { abortEarly: false })
+    ).unwrapErr();
+    expect(leafErrors(err).map((e) => e.path)).toEqual([["a"], ["b"], ["c"]]);
+  });
+
+  it("returns the first error in key order when aborting early", async () => {
+    const slowFail = za.map(z.string(), async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return Err(new z.ParseError("slow", "x", "y", undefined));
+    });
+    const fastFail = za.map(z.string(), async () =>
+      Err(new z.ParseError("fast", "x", "y", undefined)),
+    );
+    const err = (
+      await za.object({ a: slowFail, b: fastFail })({ a: "", b: "" })
+    ).unwrapErr();
+    expect(err.message).toBe("slow");
+    expect(err.path).toEqual(["a"]);
+  });
+});
+
+describe("za.array", () => {
+  it("limits how many items run at the same time", async () => {
+    const { isFree, stats } = createStore([]);
+    const names = za.array(za.refine(z.string(), isFree));
+    const input = Array.from({ length: 10 }, (_, i) => `user${i}`);
+    expect((await names(input, { concurrency: 2 })).unwrap()).toEqual(input);
+    expect(stats.maxPending).toBe(2);
+    expect(stats.calls).toBe(10);
+  });
+
+  it("limits the pending items of nested parsers together", async () => {
+    const { isFree, stats } = createStore([]);
+    const names = za.array(za.array(za.refine(z.string(), isFree)));
+    const input = Array.from({ length: 4 }, (_, i) =>
+      Array.from({ length: 4 }, (_, j) => `user${i}${j}`),
+    );
+    expect((await names(input, { concurrency: 2 })).unwrap()).toEqual(input);
+    expect(stats.maxPending).toBe(2);
+    expect(stats.calls).toBe(16);
+    const err = (
+      await names([["user0", 1], ["user1"]], { concurrency: 1 })
+    ).unwrapErr();
+    expect(err.path).toEqual(["0", "1"]);
+  });
+
+  it("stops starting items after a failure when aborting early", async () => {
+    const { isFree, stats } = createStore(["user0"]);
+    const names = za.array(za.refine(z.string(), isFree));
+    const input = Array.from({ length: 10 }, (_, i) => `user${i}`);
+    const err = (await names(input, { concurrency: 1 })).unwrapErr();
+    expect(err.path).toEqual(["0"]);
+    expect(stats.calls).toBe(1);
+  });
+
+  it("rejects concurrency values that are not positive integers", async () => {
+    const names = za.array(z.string());
+    for (const concurrency of [0, -1, 1.5, NaN]) {
+      await expect(names(["a"], { concurrency })).rejects.toThrow(RangeError);
+    }
+    expect((await names(["a"], { concurrency: Infinity })).unwrap()).toEqual([
+      "a",
+    ]);
+  });
+});
+
+describe("za.record, za.tuple and za.union", () => {
+  it("parse their children with sync and async parsers", async () => {
+    const { isFree } = createStore(["taken"]);
+    const free = za.refine(z.string(), isFree);
+    expect((await za.record(z.string(), free)({ a: "x" })).unwrap()).toEqual({
+      a: "x",
+    });
+    expect(
+      (await za.record(z.string(), free)({ a: "taken" })).unwrapErr().path,
+    ).toEqual(["a"]);
+    expect((await za.tuple([free, z.number()])(["x", 1])).unwrap()).toEqual([
+      "x",
+      1,
+    ]);
+    expect((await za.tuple([free])(["x", 1])).isErr()).toBe(true);
+    const id = za.union([z.number(), free]);
+    expect((await id(1)).unwrap()).toBe(1);
+    expect((await id("x")).unwrap()).toBe("x");
+    expect((await id("taken")).unwrapErr().code).toBe("invalid_union");
+  });
+
+  it("chains async steps with za.map and za.pipe", async () => {
+    const lookup = new Map([["1", { id: 1, name: "Ada" }]]);
+    type User = { id: number; name: string };
+    const user = za.map(
+      z.string(),
+      async (id): Promise<Result<User, z.ParseError>> => {
+        const found = lookup.get(id);
+        return found
+          ? Ok(found)
+          : Err(new z.ParseError("Not found", "user", "string", id));
+      },
+    );
+    expect((await user("1")).unwrap()).toEqual({ id: 1, name: "Ada" });
+    expect((await user("2")).unwrapErr().message).toBe("Not found");
+    const name = za.pipe(user, async (u) => Ok(u.name), z.string());
+    expect((await name("1")).unwrap()).toBe("Ada");
+  });
+});
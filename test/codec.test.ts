@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { List, None, Some, zc } from "../src";
+
+describe("codec", () => {
+  const event = zc.object({
+    name: zc.string(),
+    at: zc.date(),
+    tags: zc.list(zc.string()),
+    note: zc.optional(zc.string()),
+    count: zc.defaulted(zc.number(), 0),
+  });
+
+  it("decodes wire data", () => {
+    const decoded = event
+      .decode({ name: "a", at: "2024-01-02T03:04:05.000Z", tags: ["x"] })
+      .unwrap();
+    expect(decoded.at).toEqual(new Date("2024-01-02T03:04:05.000Z"));
+    expect(decoded.tags.toArray()).toEqual(["x"]);
+    expect(decoded.note).toBe(None);
+    expect(decoded.count).toBe(0);
+  });
+
+  it("encodes values back into wire data", () => {
+    expect(
+      event.encode({
+        name: "a",
+        at: new Date("2024-01-02T03:04:05.000Z"),
+        tags: List.from(["x", "y"]),
+        note: Some("n"),
+        count: 2,
+      }),
+    ).toEqual({
+      name: "a",
+      at: "2024-01-02T03:04:05.000Z",
+      tags: ["x", "y"],
+      note: "n",
+      count: 2,
+    });
+  });
+
+  it("round-trips values", () => {
+    const wire = {
+      name: "a",
+      at: "2024-01-02T03:04:05.000Z",
+      tags: [],
+      note: null,
+      count: 1,
+    };
+    expect(event.encode(event.decode(wire).unwrap())).toEqual(wire);
+  });
+
+  it("encodes unknown keys only when they are passed through", () => {
+    const strip = zc.object({ a: zc.number() });
+    const passthrough = zc.object(
+      { a: zc.number() },
+      { unknownKeys: "passthrough", catchall: zc.date() },
+    );
+    const at = new Date(0);
+    expect(strip.encode({ a: 1, b: at } as never)).toEqual({ a: 1 });
+    expect(passthrough.encode({ a: 1, b: at } as never)).toEqual({
+      a: 1,
+      b: "1970-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("encodes records, tuples and arrays", () => {
+    const at = new Date(0);
+    const iso = "1970-01-01T00:00:00.000Z";
+    expect(zc.record(zc.string(), zc.date()).encode({ a: at })).toEqual({
+      a: iso,
+    });
+    expect(zc.tuple([zc.date(), zc.number()]).encode([at, 1])).toEqual([
+      iso,
+      1,
+    ]);
+    expect(zc.array(zc.maybe(zc.date())).encode([at, null])).toEqual([
+      iso,
+      null,
+    ]);
+  });
+
+  it("encodes a union value with the first member that decodes it back", () => {
+    const value = zc.union([zc.date(), zc.string()]);
+    expect(value.encode(new Date(0))).toBe("1970-01-01T00:00:00.000Z");
+    expect(value.encode("a")).toBe("a");
+    expect(() => zc.union([zc.date()]).encode("a" as never)).toThrow(TypeError);
+  });
+
+  it("returns the errors of the parser", () => {
+    expect(event.decode({ name: 1 }).unwrapErr().path).toEqual(["name"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { compile, sample, z } from "../src";
+import { leafErrors } from "../src/errors";
+
+const summary = (err: z.ParseError) =>
+  leafErrors(err).map(({ message, path, code }) => ({ message, path, code }));
+
+const order = z.object({
+  id: z.string({ minLength: 1 }),
+  total: z.number({ min: 0, multipleOf: 0.01 }),
+  status: z.union([z.literal("open"), z.literal("closed")]),
+  items: z.array(
+    z.object({ sku: z.string(), qty: z.number({ min: 1, multipleOf: 1 }) }),
+    { minItems: 1 },
+  ),
+  note: z.optional(z.string()),
+  meta: z.record(z.string(), z.boolean()),
+  pair: z.tuple([z.string(), z.number()]),
+  at: z.date({ coerce: true }),
+});
+
+describe("compile", () => {
+  const compiled = compile(order);
+
+  it("returns the same output as the original parser", () => {
+    for (const value of sample(order, 30, { seed: 7 })) {
+      expect(compiled(value).unwrap()).toEqual(order(value).unwrap());
+    }
+  });
+
+  it("returns the same errors as the original parser", () => {
+    const inputs: unknown[] = [
+      null,
+      { id: "" },
+      { id: "a", total: 0.015, status: "open", items: [] },
+      {
+        id: "a",
+        total: 1,
+        status: "pending",
+        items: [{ sku: "x", qty: 1.5 }],
+        meta: { a: "yes" },
+        pair: ["a"],
+        at: "not a date",
+      },
+    ];
+    for (const input of inputs) {
+      for (const abortEarly of [true, false]) {
+        expect(summary(compiled(input, { abortEarly }).unwrapErr())).toEqual(
+          summary(order(input, { abortEarly }).unwrapErr()),
+        );
+      }
+    }
+  });
+
+  it("checks multiples of decimal steps like the original parser", () => {
+    const price = compile(z.number({ multipleOf: 0.1 }));
+    expect(price(0.3).isOk()).toBe(true);
+    expect(price(0.7).isOk()).toBe(true);
+    expect(price(0.75).isErr()).toBe(true);
+  });
+
+  it("keeps the descriptor of the original parser", () => {
+    expect(z.describe(compiled)).toEqual(z.describe(order));
+  });
+});
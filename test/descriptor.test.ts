@@ -0,0 +1,256 @@
+import { describe, expect, it } from "vitest";
+
+import { Ok, z } from "../src";
+import { expectedOf } from "../src/descriptor";
+
+const str = z.string({ minLength: 1 });
+const num = z.number();
+
+describe("describe", () => {
+  it("describes the leaf parsers with their options and constraints", () => {
+    expect(z.describe(str)).toEqual({
+      kind: "string",
+      coerce: false,
+      constraints: [{ name: "minLength", params: { value: 1 } }],
+    });
+    expect(z.describe(z.number({ coerce: true, int: true }))).toEqual({
+      kind: "number",
+      coerce: true,
+      constraints: [{ name: "int", params: {} }],
+    });
+    expect(z.describe(z.boolean())).toEqual({ kind: "boolean" });
+    expect(z.describe(z.literal("a"))).toEqual({ kind: "literal", value: "a" });
+    expect(z.describe(z.enums({ A: "a", B: "b" }))).toEqual({
+      kind: "enums",
+      values: ["a", "b"],
+    });
+    expect(z.describe(z.unknown)).toEqual({ kind: "unknown" });
+    expect(z.describe(z.email())).toMatchObject({
+      kind: "string",
+      format: "email",
+    });
+    expect(z.describe(z.uuid({ version: [4, 7] }))).toMatchObject({
+      format: "uuid",
+      versions: [4, 7],
+    });
+    expect(z.describe(z.bigint())).toEqual({ kind: "bigint", coerce: false });
+    expect(z.describe(z.instanceOf(Date))).toEqual({
+      kind: "instanceOf",
+      ctor: Date,
+    });
+    expect(z.describe(z.typedArray(Uint8Array))).toEqual({
+      kind: "typedArray",
+      ctor: Uint8Array,
+      coerce: false,
+    });
+  });
+
+  it("describes the wrappers with the parser they wrap", () => {
+    const inc = (n: number) => n + 1;
+    expect(z.describe(z.optional(str))).toEqual({
+      kind: "optional",
+      parser: str,
+    });
+    expect(z.describe(z.maybe(str))).toEqual({ kind: "maybe", parser: str });
+    expect(z.describe(z.defaulted(num, 0))).toEqual({
+      kind: "defaulted",
+      parser: num,
+      default: 0,
+    });
+    expect(z.describe(z.array(num, { maxItems: 2 }))).toEqual({
+      kind: "array",
+      parser: num,
+      constraints: [{ name: "maxItems", params: { value: 2 } }],
+    });
+    expect(z.describe(z.list(num))).toEqual({
+      kind: "list",
+      parser: num,
+      constraints: [],
+    });
+    expect(z.describe(z.set(num))).toEqual({
+      kind: "set",
+      parser: num,
+      coerce: false,
+    });
+    expect(z.describe(z.chain(num, inc))).toEqual({
+      kind: "chain",
+      parser: num,
+    });
+    expect(z.describe(z.map(num, (n) => Ok(inc(n))))).toEqual({
+      kind: "map",
+      parser: num,
+    });
+    expect(z.describe(z.preprocess(String, str))).toEqual({
+      kind: "preprocess",
+      parser: str,
+    });
+    expect(
+      z.describe(z.refine(num, (n) => n > 0, { name: "positive" })),
+    ).toEqual({
+      kind: "refine",
+      parser: num,
+      constraint: { name: "positive", params: {} },
+    });
+    expect(z.describe(z.brand(str, "Name"))).toEqual({
+      kind: "brand",
+      parser: str,
+      name: "Name",
+    });
+  });
+
+  it("describes the combinators with their children", () => {
+    const rest = z.boolean();
+    expect(z.describe(z.object({ a: str }, { unknownKeys: "strict" }))).toEqual(
+      {
+        kind: "object",
+        shape: { a: str },
+        unknownKeys: "strict",
+        exact: false,
+      },
+    );
+    expect(z.describe(z.record(str, num))).toEqual({
+      kind: "record",
+      key: str,
+      value: num,
+    });
+    expect(z.describe(z.mapOf(str, num))).toEqual({
+      kind: "mapOf",
+      key: str,
+      value: num,
+      coerce: false,
+    });
+    expect(z.describe(z.tuple([str, num], { rest }))).toEqual({
+      kind: "tuple",
+      parsers: [str, num],
+      rest,
+    });
+    expect(z.describe(z.union([str, num]))).toEqual({
+      kind: "union",
+      parsers: [str, num],
+    });
+    const a = z.object({ a: str });
+    const b = z.object({ b: num });
+    expect(z.describe(z.intersection([a, b]))).toEqual({
+      kind: "intersection",
+      parsers: [a, b],
+    });
+    expect(z.describe(z.pipe(str, z.number({ coerce: true })))).toMatchObject({
+      kind: "pipe",
+      parsers: [str, expect.any(Function)],
+    });
+    const created = z.object({ id: num });
+    expect(z.describe(z.discriminatedUnion("type", { created }))).toEqual({
+      kind: "discriminatedUnion",
+      key: "type",
+      branches: { created },
+    });
+    const lazy = z.describe(z.lazy(() => str));
+    expect(lazy.kind === "lazy" && lazy.getter()).toBe(str);
+  });
+
+  it("describes parsers not built with z.* as custom", () => {
+    expect(z.describe((input: unknown) => str(input))).toEqual({
+      kind: "custom",
+    });
+  });
+});
+
+describe("children", () => {
+  it("returns the children of a parser with their keys", () => {
+    const rest = z.boolean();
+    expect(z.children(z.object({ a: str, b: num }))).toEqual([
+      ["a", str],
+      ["b", num],
+    ]);
+    expect(z.children(z.record(str, num))).toEqual([
+      ["key", str],
+      ["value", num],
+    ]);
+    expect(z.children(z.tuple([str], { rest }))).toEqual([
+      ["0", str],
+      ["", rest],
+    ]);
+    expect(z.children(z.union([str, num]))).toEqual([
+      ["0", str],
+      ["1", num],
+    ]);
+    expect(z.children(z.array(str))).toEqual([["", str]]);
+    expect(z.children(str)).toEqual([]);
+  });
+});
+
+describe("walk", () => {
+  const paths = (parser: z.Parser<unknown, never>) => {
+    const visited: [string, string[]][] = [];
+    z.walk(parser, (desc, _, path) => {
+      visited.push([desc.kind, path]);
+    });
+    return visited;
+  };
+
+  it("visits every parser of a nested parser with its path", () => {
+    const user = z.object({
+      name: str,
+      tags: z.array(z.optional(str)),
+      point: z.tuple([num, num]),
+    });
+    expect(paths(user)).toEqual([
+      ["object", []],
+      ["string", ["name"]],
+      ["array", ["tags"]],
+      ["optional", ["tags"]],
+      ["string", ["tags"]],
+      ["tuple", ["point"]],
+      ["number", ["point", "0"]],
+      ["number", ["point", "1"]],
+    ]);
+  });
+
+  it("does not visit the children of a parser when the visitor returns false", () => {
+    const visited: string[] = [];
+    z.walk(z.object({ a: z.array(str), b: num }), (desc) => {
+      visited.push(desc.kind);
+      return desc.kind !== "array";
+    });
+    expect(visited).toEqual(["object", "array", "number"]);
+  });
+
+  it("stops walking a lazy recursive parser where it recurses", () => {
+    type Node = { value: number; children: Node[] };
+    const node: z.Parser<Node> = z.lazy(() =>
+      z.object({ value: num, children: z.array(node) }),
+    );
+    expect(paths(node)).toEqual([
+      ["lazy", []],
+      ["object", []],
+      ["number", ["value"]],
+      ["array", ["children"]],
+    ]);
+  });
+});
+
+describe("expectedOf", () => {
+  it("describes a parser each time it is used side by side", () => {
+    const id = z.string();
+    expect(expectedOf(z.union([id, z.optional(id)]))).toBe(
+      "string | string | undefined",
+    );
+    expect(
+      z
+        .union([z.number(), z.union([id, z.maybe(id)])])(true)
+        .unwrapErr().expected,
+    ).toBe("number | string | string | null | undefined");
+  });
+
+  it("describes a recursive parser as unknown where it recurses", () => {
+    type List = { head: number; tail: List } | null;
+    const list: z.Parser<List> = z.lazy(() =>
+      z.union([z.literal(null), z.object({ head: num, tail: list })]),
+    );
+    const nested: z.Parser<unknown> = z.lazy(() =>
+      z.union([num, z.optional(nested)]),
+    );
+    expect(expectedOf(list)).toBe("null | object");
+    expect(expectedOf(nested)).toBe("number | unknown | undefined");
+  });
+});
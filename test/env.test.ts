@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import { EnvError, loadEnv, parseEnv, z } from "../src";
+
+describe("parseEnv", () => {
+  const shape = {
+    PORT: z.number(),
+    DEBUG: z.boolean(),
+    HOSTS: z.array(z.string()),
+    HOST: z.defaulted(z.string(), "localhost"),
+  };
+
+  it("converts variables to what the parsers expect", () => {
+    expect(
+      parseEnv(shape, {
+        env: { PORT: "8080", DEBUG: "yes", HOSTS: "a, b,", HOST: "" },
+      }).unwrap(),
+    ).toEqual({
+      PORT: 8080,
+      DEBUG: true,
+      HOSTS: ["a", "b"],
+      HOST: "localhost",
+    });
+  });
+
+  it("reports every invalid variable", () => {
+    const err = parseEnv(shape, { env: { PORT: "x", HOSTS: "a" } }).unwrapErr();
+    expect(err).toBeInstanceOf(z.ParseError);
+    expect((err as z.AggregateParseError).errors.map((e) => e.path)).toEqual([
+      ["PORT"],
+      ["DEBUG"],
+    ]);
+  });
+
+  it("masks the values of secret variables, including in nested errors", () => {
+    const secret = "hunter2";
+    const err = parseEnv(
+      {
+        API_TOKEN: z.union([z.number(), z.literal("none")]),
+        PASSWORD: z.string({ minLength: 10 }),
+      },
+      { env: { API_TOKEN: secret, PASSWORD: secret } },
+    ).unwrapErr();
+    expect(JSON.stringify(err)).not.toContain(secret);
+    const [token] = (err as z.AggregateParseError).errors;
+    expect(token.input).toBe("********");
+    expect((token.params.errors as z.ParseError[]).map((e) => e.input)).toEqual(
+      ["********", "********"],
+    );
+    expect(err.input).toEqual({ API_TOKEN: "********", PASSWORD: "********" });
+  });
+
+  it("masks the values of secret variables in the messages of the error map", () => {
+    z.setErrorMap((e) => `Invalid value ${JSON.stringify(e.input)}`);
+    const err = parseEnv(
+      {
+        API_TOKEN: z.union([z.number(), z.literal("none")]),
+        PORT: z.number(),
+      },
+      { env: { API_TOKEN: "hunter2", PORT: "x" } },
+    ).unwrapErr() as z.AggregateParseError;
+    expect(err.errors.map((e) => e.message)).toEqual([
+      'Invalid value "********"',
+      'Invalid value "x"',
+    ]);
+    const [token] = err.errors;
+    expect(
+      (token.params.errors as z.ParseError[]).map((e) => e.message),
+    ).toEqual(['Invalid value "********"', 'Invalid value "********"']);
+  });
+
+  it("matches secret names with patterns that have the global flag", () => {
+    const err = parseEnv(
+      { DB_SECRET: z.number(), API_SECRET: z.number() },
+      { env: { DB_SECRET: "a", API_SECRET: "b" }, secrets: /SECRET/g },
+    ).unwrapErr() as z.AggregateParseError;
+    expect(err.errors.map((e) => e.input)).toEqual(["********", "********"]);
+  });
+});
+
+describe("loadEnv", () => {
+  it("throws an EnvError listing the invalid variables", () => {
+    expect(() => loadEnv({ PORT: z.number() }, { env: {} })).toThrow(EnvError);
+    expect(loadEnv({ PORT: z.number() }, { env: { PORT: "1" } })).toEqual({
+      PORT: 1,
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { z } from "../src";
+
+const details = (res: { unwrapErr(): z.ParseError }) => {
+  const { code, params, path, message } = res.unwrapErr();
+  return { code, params, path, message };
+};
+
+describe("ParseError", () => {
+  it("has a code and params for each kind of error", () => {
+    expect(details(z.string()(1))).toEqual({
+      code: "invalid_type",
+      params: { expected: "string", actual: "number" },
+      path: [],
+      message: "Type 'number' is not assignable to type 'string'",
+    });
+    expect(details(z.literal("a")("b"))).toMatchObject({
+      code: "invalid_literal",
+      params: { expected: "a" },
+    });
+    expect(details(z.enums({ A: "a", B: "b" })("c"))).toMatchObject({
+      code: "invalid_enum",
+      params: { options: ["a", "b"] },
+    });
+    expect(details(z.email()("a"))).toMatchObject({
+      code: "invalid_format",
+      params: { format: "email" },
+    });
+    expect(
+      details(z.object({}, { unknownKeys: "strict" })({ a: 1 })),
+    ).toMatchObject({ code: "unrecognized_key", params: { key: "a" } });
+    expect(details(z.string({ minLength: 2 })("a"))).toMatchObject({
+      code: "constraint",
+      params: { value: 2 },
+    });
+    const union = z.union([z.string(), z.number()])(true).unwrapErr();
+    expect(union.code).toBe("invalid_union");
+    expect(
+      (union.params.errors as z.ParseError[]).map((err) => err.expected),
+    ).toEqual(["string", "number"]);
+  });
+
+  it("is a ConstraintError with the name of the constraint for constraint errors", () => {
+    const err = z.number({ max: 3 })(4).unwrapErr();
+    expect(err).toBeInstanceOf(z.ConstraintError);
+    expect((err as z.ConstraintError).constraint).toBe("max");
+  });
+});
+
+describe("errorMap", () => {
+  const age = z.object({ age: z.number({ min: 18 }) });
+
+  it("replaces the messages of the errors it returns one for", () => {
+    const errorMap: z.ErrorMap = (err) =>
+      err.code === "constraint" ? `At least ${err.params.value}` : undefined;
+    expect(details(age({ age: 3 }, { errorMap }))).toEqual({
+      code: "constraint",
+      params: { value: 18 },
+      path: ["age"],
+      message: "At least 18",
+    });
+    expect(age({ age: "3" }, { errorMap }).unwrapErr().message).toBe(
+      "Type 'string' is not assignable to type 'number'",
+    );
+  });
+
+  it("is used for every parser when it is set globally", () => {
+    z.setErrorMap((err) => `Invalid ${err.expected}`);
+    expect(z.getErrorMap()).toBeDefined();
+    expect(age({ age: "3" }).unwrapErr().message).toBe("Invalid number");
+    z.setErrorMap(undefined);
+    expect(age({ age: "3" }).unwrapErr().message).toBe(
+      "Type 'string' is not assignable to type 'number'",
+    );
+  });
+
+  it("takes precedence over the global error map when passed in the options", () => {
+    z.setErrorMap(() => "global");
+    expect(
+      age({ age: 3 }, { errorMap: () => "local" }).unwrapErr().message,
+    ).toBe("local");
+    expect(
+      age({ age: 3 }, { errorMap: () => undefined }).unwrapErr().message,
+    ).toBe("global");
+  });
+});
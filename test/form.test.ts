@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { formToObject, parseForm, z } from "../src";
+
+const form = (query: string) => new URLSearchParams(query);
+
+describe("formToObject", () => {
+  it("builds nested data from field names", () => {
+    expect(
+      formToObject(
+        form(
+          "a.b=1&items[0][name]=x&items[1].name=y&tags[]=p&tags[]=q&c=&d=3&d=4",
+        ),
+      ),
+    ).toEqual({
+      a: { b: "1" },
+      items: [{ name: "x" }, { name: "y" }],
+      tags: ["p", "q"],
+      d: ["3", "4"],
+    });
+  });
+
+  it("leaves out fields that could change prototypes", () => {
+    const data = formToObject(
+      form(
+        "a[0]=1&a[__proto__][polluted]=x&__proto__.polluted=x&b.constructor.prototype.polluted=x&c[0]=1&c[toString][x]=1",
+      ),
+    );
+    expect(data).toEqual({ a: ["1"], c: ["1"] });
+    expect(({} as { polluted?: unknown }).polluted).toBeUndefined();
+    expect(([] as { polluted?: unknown }).polluted).toBeUndefined();
+  });
+});
+
+describe("parseForm", () => {
+  const signup = z.object({
+    name: z.string(),
+    age: z.number({ min: 18 }),
+    terms: z.boolean(),
+    tags: z.array(z.string()),
+  });
+
+  it("converts values to what the parser expects", () => {
+    expect(
+      parseForm(form("name=a&age=20&terms=on&tags=x"), signup).unwrap(),
+    ).toEqual({
+      name: "a",
+      age: 20,
+      terms: true,
+      tags: ["x"],
+    });
+    expect(parseForm(form("name=a&age=20"), signup).unwrap()).toEqual({
+      name: "a",
+      age: 20,
+      terms: false,
+      tags: [],
+    });
+  });
+
+  it("reports errors with the name of the form field", () => {
+    const items = z.object({ items: z.array(z.object({ qty: z.number() })) });
+    expect(parseForm(form("items[0].qty=x"), items).unwrapErr().path).toEqual([
+      "items[0].qty",
+    ]);
+    expect(parseForm(form("name=a&age=10"), signup).unwrapErr().path).toEqual([
+      "age",
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { flattenError, formatError, parseJsonWithLocations, z } from "../src";
+
+const user = z.object({
+  name: z.string({ minLength: 3 }),
+  tags: z.array(z.string()),
+});
+
+const err = user(
+  { name: "a", tags: ["x", 1] },
+  { abortEarly: false },
+).unwrapErr();
+
+describe("formatError", () => {
+  it("lists every leaf error with its path", () => {
+    expect(formatError(err)).toBe(
+      [
+        "2 errors:",
+        "  at name: String must contain at least 3 characters",
+        "  at tags.1: Type 'number' is not assignable to type 'string'",
+      ].join("\n"),
+    );
+  });
+
+  it("reports errors of the root value at root", () => {
+    expect(formatError(z.string()(1).unwrapErr())).toBe(
+      "1 error:\n  at root: Type 'number' is not assignable to type 'string'",
+    );
+  });
+
+  it("tells the line and column of errors with a location", () => {
+    const located = parseJsonWithLocations(
+      '{\n  "name": 1,\n  "tags": []\n}',
+      user,
+    ).unwrapErr() as z.ParseError;
+    expect(formatError(located)).toBe(
+      "1 error:\n  at name (line 2, column 11): Type 'number' is not assignable to type 'string'",
+    );
+  });
+});
+
+describe("flattenError", () => {
+  it("groups the messages by the path of their field", () => {
+    expect(flattenError(err)).toEqual({
+      name: ["String must contain at least 3 characters"],
+      "tags.1": ["Type 'number' is not assignable to type 'string'"],
+    });
+    expect(flattenError(z.string()(1).unwrapErr())).toEqual({
+      "": ["Type 'number' is not assignable to type 'string'"],
+    });
+  });
+
+  it("escapes dots and backslashes in keys so that paths do not collide", () => {
+    const parser = z.object({
+      "a.b": z.string(),
+      a: z.object({ b: z.string() }),
+      "c\\": z.object({ ".d": z.string() }),
+    });
+    const flat = flattenError(
+      parser(
+        { "a.b": 1, a: { b: 1 }, "c\\": { ".d": 1 } },
+        { abortEarly: false },
+      ).unwrapErr(),
+    );
+    expect(Object.keys(flat)).toEqual(["a\\.b", "a.b", "c\\\\.\\.d"]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { isBase64, isISODate, isMultipleOf, isUUID, z } from "../src";
+
+describe("isUUID", () => {
+  const v4 = "123e4567-e89b-42d3-a456-426614174000";
+  const v7 = "017f22e2-79b0-7cc3-98c4-dc0c0c07398f";
+
+  it("accepts version 4 only by default", () => {
+    expect(isUUID(v4)).toBe(true);
+    expect(isUUID(v7)).toBe(false);
+    expect(z.uuid()(v7).isErr()).toBe(true);
+  });
+
+  it("accepts the versions that are asked for", () => {
+    expect(isUUID(v7, 7)).toBe(true);
+    expect(isUUID(v4, [1, 7])).toBe(false);
+    expect(
+      z
+        .uuid({ version: [4, 7] })(v7)
+        .isOk(),
+    ).toBe(true);
+  });
+});
+
+describe("isISODate", () => {
+  it("accepts the years 0000 to 0099", () => {
+    expect(isISODate("0000-01-01")).toBe(true);
+    expect(isISODate("0099-12-31")).toBe(true);
+    expect(isISODate("0004-02-29")).toBe(true);
+  });
+
+  it("rejects dates that do not exist", () => {
+    expect(isISODate("2023-02-29")).toBe(false);
+    expect(isISODate("0001-02-29")).toBe(false);
+    expect(isISODate("2024-13-01")).toBe(false);
+  });
+});
+
+describe("isBase64", () => {
+  it("rejects the empty string", () => {
+    expect(isBase64("")).toBe(false);
+    expect(isBase64("YQ==")).toBe(true);
+    expect(isBase64("YQ")).toBe(false);
+  });
+});
+
+describe("isMultipleOf", () => {
+  it("accepts multiples of decimal steps", () => {
+    expect(isMultipleOf(0.3, 0.1)).toBe(true);
+    expect(isMultipleOf(0.7, 0.1)).toBe(true);
+    expect(isMultipleOf(1e-7 * 3, 1e-7)).toBe(true);
+    expect(isMultipleOf(0.35, 0.1)).toBe(false);
+    expect(isMultipleOf(10, 3)).toBe(false);
+  });
+});
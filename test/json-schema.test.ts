@@ -0,0 +1,290 @@
+import { describe, expect, it } from "vitest";
+
+import type { JsonSchema, JsonSchemaWarning } from "../src";
+import { fromJsonSchema, toJsonSchema, z } from "../src";
+
+const DRAFT = "https://json-schema.org/draft/2020-12/schema";
+
+const warningsOf = (parser: z.Parser) => {
+  const warnings: JsonSchemaWarning[] = [];
+  const schema = toJsonSchema(parser, { onWarning: (w) => warnings.push(w) });
+  return { schema, warnings };
+};
+
+describe("toJsonSchema", () => {
+  it("exports primitives and their constraints", () => {
+    expect(toJsonSchema(z.string({ minLength: 1, maxLength: 5 }))).toEqual({
+      $schema: DRAFT,
+      type: "string",
+      minLength: 1,
+      maxLength: 5,
+    });
+    expect(toJsonSchema(z.number({ int: true, min: 0, max: 10 }))).toEqual({
+      $schema: DRAFT,
+      type: "integer",
+      minimum: 0,
+      maximum: 10,
+    });
+    expect(toJsonSchema(z.email())).toEqual({
+      $schema: DRAFT,
+      type: "string",
+      format: "email",
+    });
+  });
+
+  it("marks keys that accept a missing value as optional", () => {
+    const schema = toJsonSchema(
+      z.object(
+        { id: z.number(), name: z.maybe(z.string()) },
+        { unknownKeys: "strict" },
+      ),
+    );
+    expect(schema).toEqual({
+      $schema: DRAFT,
+      type: "object",
+      properties: {
+        id: { type: "number" },
+        name: { anyOf: [{ type: "string" }, { type: "null" }] },
+      },
+      required: ["id"],
+      additionalProperties: false,
+    });
+  });
+
+  it("exports tuples with their rest parser", () => {
+    expect(
+      toJsonSchema(z.tuple([z.string()], { rest: z.number() })),
+    ).toMatchObject({
+      prefixItems: [{ type: "string" }],
+      items: { type: "number" },
+      minItems: 1,
+    });
+    expect(toJsonSchema(z.tuple([z.string()]))).toMatchObject({
+      items: false,
+    });
+  });
+
+  it("moves shared and recursive parsers to $defs", () => {
+    type Node = { children: Node[] };
+    const node: z.Parser<Node> = z.lazy(() =>
+      z.object({ children: z.array(node) }),
+    );
+    const schema = toJsonSchema(z.object({ a: node, b: node }));
+    expect(schema.properties).toEqual({
+      a: { $ref: "#/$defs/lazy1" },
+      b: { $ref: "#/$defs/lazy1" },
+    });
+    expect(schema.$defs?.lazy1).toMatchObject({
+      type: "object",
+      properties: { children: { items: { $ref: "#/$defs/lazy1" } } },
+    });
+  });
+
+  it("reports what cannot be represented through onWarning", () => {
+    const { schema, warnings } = warningsOf(
+      z.map(z.string(), (s) => z.number({ coerce: true })(s)),
+    );
+    expect(schema).toEqual({ $schema: DRAFT, type: "string" });
+    expect(warnings).toEqual([
+      { path: [], kind: "map", message: expect.stringContaining("z.map") },
+    ]);
+  });
+
+  it("warns about pattern flags that change what the pattern matches", () => {
+    const { schema, warnings } = warningsOf(
+      z.object({ code: z.string({ pattern: /^[a-z]+$/i }) }),
+    );
+    expect(schema.properties?.code).toEqual({
+      type: "string",
+      pattern: "^[a-z]+$",
+    });
+    expect(warnings).toEqual([
+      {
+        path: ["code"],
+        kind: "string",
+        message: expect.stringContaining("'i'"),
+      },
+    ]);
+    expect(warningsOf(z.string({ pattern: /^\p{L}+$/u })).warnings).toEqual([]);
+  });
+
+  it("writes the warnings to the root $comment by default, without logging them", () => {
+    const warn = console.warn;
+    const calls: unknown[] = [];
+    console.warn = (...args: unknown[]) => calls.push(args);
+    let schema: JsonSchema;
+    try {
+      schema = toJsonSchema(
+        z.object({
+          name: z.chain(z.string(), (s) => s.trim()),
+          id: z.brand(z.string(), "Id"),
+        }),
+      );
+    } finally {
+      console.warn = warn;
+    }
+    expect(calls).toEqual([]);
+    expect(schema.$comment?.split("\n")).toEqual([
+      expect.stringMatching(/z\.chain.* at 'name'$/),
+    ]);
+    expect(toJsonSchema(z.string()).$comment).toBeUndefined();
+  });
+
+  it("lists as required only the keys whose parser rejects a missing value", () => {
+    const schema = toJsonSchema(
+      z.object({
+        id: z.string(),
+        nick: z.brand(z.optional(z.string()), "Nick"),
+        age: z.refine(z.maybe(z.number()), () => true),
+        meta: z.unknown,
+      }),
+    );
+    expect(schema.required).toEqual(["id"]);
+  });
+});
+
+describe("fromJsonSchema", () => {
+  const build = (schema: JsonSchema | boolean) =>
+    fromJsonSchema(schema).unwrap();
+  const issuesOf = (schema: JsonSchema) =>
+    fromJsonSchema(schema)
+      .unwrapErr()
+      .issues.map((issue) => [issue.keyword, issue.path.join("/")]);
+
+  it("builds parsers for typed schemas", () => {
+    const parser = build({
+      type: "object",
+      properties: {
+        id: { type: "integer", minimum: 1 },
+        name: { type: "string", minLength: 1 },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["id", "name"],
+      additionalProperties: false,
+    });
+    expect(parser({ id: 1, name: "a", tags: ["x"] }).unwrap()).toEqual({
+      id: 1,
+      name: "a",
+      tags: ["x"],
+    });
+    expect(parser({ id: 1, name: "a" }).isOk()).toBe(true);
+    expect(parser({ id: 0, name: "a" }).isErr()).toBe(true);
+    expect(parser({ id: 1.5, name: "a" }).isErr()).toBe(true);
+    expect(parser({ id: 1, name: "a", extra: true }).isErr()).toBe(true);
+  });
+
+  it("rejects a missing required key that has no schema", () => {
+    const parser = build({
+      type: "object",
+      properties: { id: { type: "number" } },
+      required: ["id", "token"],
+    });
+    expect(parser({ id: 1, token: null }).isOk()).toBe(true);
+    const err = parser({ id: 1 }).unwrapErr();
+    expect(err.path).toEqual(["token"]);
+  });
+
+  it("rejects a missing required key whose schema accepts any value", () => {
+    const tokens = [{}, true, { description: "Any value" }] as JsonSchema[];
+    for (const token of tokens) {
+      const parser = build({
+        type: "object",
+        properties: { token },
+        required: ["token"],
+      });
+      expect(parser({ token: 0 }).isOk()).toBe(true);
+      expect(parser({}).unwrapErr().path).toEqual(["token"]);
+    }
+  });
+
+  it("accepts values that exactly one branch of oneOf accepts", () => {
+    const parser = build({ oneOf: [{ type: "number" }, { type: "integer" }] });
+    expect(parser(1.5).unwrap()).toBe(1.5);
+    expect(parser(1).unwrapErr()).toMatchObject({
+      code: "invalid_union",
+      params: { matches: [0, 1] },
+    });
+    expect(parser("1").unwrapErr().code).toBe("invalid_union");
+    expect(
+      build({ anyOf: [{ type: "number" }, { type: "integer" }] })(1).isOk(),
+    ).toBe(true);
+  });
+
+  it("parses date-time strings strictly", () => {
+    const parser = build({ type: "string", format: "date-time" });
+    expect(parser("2024-02-29T13:45:30Z").unwrap()).toEqual(
+      new Date("2024-02-29T13:45:30Z"),
+    );
+    expect(parser("1").isErr()).toBe(true);
+    expect(parser("2024-02-30T13:45:30Z").isErr()).toBe(true);
+  });
+
+  it("keeps enum values of different types apart", () => {
+    const parser = build({ enum: [1, "2", true, null] });
+    expect(parser(1).unwrap()).toBe(1);
+    expect(parser("2").unwrap()).toBe("2");
+    expect(parser(null).unwrap()).toBe(null);
+    expect(parser("1").isErr()).toBe(true);
+    expect(parser(2).isErr()).toBe(true);
+  });
+
+  it("resolves local references, including recursive ones", () => {
+    const parser = build({
+      $defs: {
+        node: {
+          type: "object",
+          properties: {
+            children: { type: "array", items: { $ref: "#/$defs/node" } },
+          },
+          required: ["children"],
+        },
+      },
+      $ref: "#/$defs/node",
+    });
+    expect(parser({ children: [{ children: [] }] }).isOk()).toBe(true);
+    expect(parser({ children: [{}] }).isErr()).toBe(true);
+    const linked = build({
+      $defs: {
+        link: {
+          type: "object",
+          properties: {
+            next: { anyOf: [{ $ref: "#/$defs/link" }, { type: "null" }] },
+          },
+          required: ["next"],
+        },
+      },
+      $ref: "#/$defs/link",
+    });
+    expect(linked({ next: { next: null } }).isOk()).toBe(true);
+    expect(linked({ next: { next: 1 } }).isErr()).toBe(true);
+    expect(linked({ next: {} }).isErr()).toBe(true);
+  });
+
+  it("round-trips schemas exported by toJsonSchema", () => {
+    const original = z.object({
+      name: z.string({ maxLength: 3 }),
+      pair: z.tuple([z.number(), z.boolean()]),
+    });
+    const parser = build(toJsonSchema(original));
+    expect(parser({ name: "abc", pair: [1, true] }).isOk()).toBe(true);
+    expect(parser({ name: "abcd", pair: [1, true] }).isErr()).toBe(true);
+    expect(parser({ name: "abc", pair: [1, true, 2] }).isErr()).toBe(true);
+  });
+
+  it("reports unsupported keywords instead of ignoring them", () => {
+    expect(issuesOf({ type: "string", format: "iban" })).toEqual([
+      ["format", "format"],
+    ]);
+    expect(issuesOf({ if: { type: "string" } })).toEqual([["if", "if"]]);
+    expect(issuesOf({ minLength: 1, minimum: 0 })).toEqual([
+      ["minLength", "minLength"],
+      ["minimum", "minimum"],
+    ]);
+    expect(issuesOf({ type: "string", maximum: 3 })).toEqual([
+      ["maximum", "maximum"],
+    ]);
+    expect(issuesOf({ type: "object", required: ["a"] })).toEqual([
+      ["required", "required"],
+    ]);
+  });
+});
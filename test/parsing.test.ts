@@ -0,0 +1,475 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+
+import { Ok, z } from "../src";
+
+describe("lazy", () => {
+  type Node = { value: number; children: Node[] };
+  const node: z.Parser<Node> = z.lazy(() =>
+    z.object({ value: z.number(), children: z.array(node) }),
+  );
+
+  it("parses recursive values", () => {
+    const tree = { value: 1, children: [{ value: 2, children: [] }] };
+    expect(node(tree).unwrap()).toEqual(tree);
+    expect(
+      node({ value: 1, children: [{ value: "2", children: [] }] }).unwrapErr()
+        .path,
+    ).toEqual(["children", "0", "value"]);
+  });
+
+  it("returns an error for circular values", () => {
+    const cyclic: { value: number; children: unknown[] } = {
+      value: 1,
+      children: [],
+    };
+    cyclic.children.push(cyclic);
+    const err = node(cyclic).unwrapErr();
+    expect(err.code).toBe("circular_reference");
+    expect(err.expected).toBe("acyclic value");
+    expect(err.actual).toBe("object");
+    expect(err.path).toEqual(["children", "0"]);
+  });
+});
+
+describe("intersection", () => {
+  it("checks unknown keys once against every member, nested ones included", () => {
+    const a = z.object({ a: z.string() }, { unknownKeys: "strict" });
+    const b = z.object({ b: z.number() });
+    const c = z.object({ c: z.boolean() });
+    const abc = z.intersection([a, z.intersection([b, c])]);
+    expect(abc({ a: "x", b: 1, c: true }).unwrap()).toEqual({
+      a: "x",
+      b: 1,
+      c: true,
+    });
+    const err = abc({ a: "x", b: 1, c: true, d: 0 }).unwrapErr();
+    expect(err.code).toBe("unrecognized_key");
+    expect(err.path).toEqual(["d"]);
+  });
+});
+
+describe("object", () => {
+  type User = { name: string; age: number };
+
+  it("accepts the type of the output as an explicit type argument", () => {
+    const user = z.object<User>({ name: z.string(), age: z.number() });
+    const parse: z.Parser<User> = user;
+    expect(parse({ name: "a", age: 1 }).unwrap()).toEqual({
+      name: "a",
+      age: 1,
+    });
+    expect(Object.keys(user.shape)).toEqual(["name", "age"]);
+  });
+
+  it("derives new object parsers from a shape", () => {
+    const user = z.object({ name: z.string(), age: z.number() });
+    expect(z.pick(user, ["name"])({ name: "a", age: 1 }).unwrap()).toEqual({
+      name: "a",
+    });
+    expect(z.omit(user, ["name"])({ age: 1 }).unwrap()).toEqual({ age: 1 });
+    expect(z.partial(user)({}).unwrap()).toEqual({});
+    expect(
+      z
+        .extend(user, { admin: z.boolean() })({
+          name: "a",
+          age: 1,
+          admin: true,
+        })
+        .isOk(),
+    ).toBe(true);
+    expect(z.required(z.partial(user))({ name: "a" }).unwrapErr().path).toEqual(
+      ["age"],
+    );
+  });
+
+  it("makes the keys whose parsers may return undefined optional", () => {
+    const shape = {
+      name: z.string(),
+      nick: z.maybe(z.string()),
+      age: z.defaulted(z.number(), 0),
+      email: z.optional(z.string()),
+    };
+    expectTypeOf<z.InferShape<typeof shape>>().toEqualTypeOf<{
+      name: string;
+      nick?: string | null | undefined;
+      age: number;
+      email: z.Infer<typeof shape.email>;
+    }>();
+    expectTypeOf<z.ExactInferShape<typeof shape>>().toEqualTypeOf<{
+      name: string;
+      nick?: string | null;
+      age: number;
+      email: z.Infer<typeof shape.email>;
+    }>();
+  });
+
+  it("leaves undefined values out of the output of exact parsers only", () => {
+    const shape = { name: z.string(), nick: z.maybe(z.string()) };
+    const loose = z.object(shape);
+    const exact = z.object(shape, { exact: true });
+    expect(Object.keys(loose({ name: "a" }).unwrap())).toEqual(["name"]);
+    expect(Object.keys(exact({ name: "a" }).unwrap())).toEqual(["name"]);
+    expect(loose({ name: "a", nick: undefined }).unwrap()).toHaveProperty(
+      "nick",
+      undefined,
+    );
+    expect(Object.keys(exact({ name: "a", nick: undefined }).unwrap())).toEqual(
+      ["name"],
+    );
+    expect(exact({ name: "a", nick: null }).unwrap()).toEqual({
+      name: "a",
+      nick: null,
+    });
+  });
+});
+
+describe("number", () => {
+  it("accepts multiples of decimal steps", () => {
+    const tenth = z.number({ multipleOf: 0.1 });
+    for (const n of [0.3, 0.7, 1.1, -0.2, 0, 5]) {
+      expect(tenth(n).isOk()).toBe(true);
+    }
+    expect(tenth(0.35).unwrapErr().message).toBe(
+      "Number must be a multiple of 0.1",
+    );
+    expect(z.number({ multipleOf: 0.25 })(1.75).isOk()).toBe(true);
+    expect(z.number({ multipleOf: 3 })(10).isErr()).toBe(true);
+  });
+});
+
+describe("discriminatedUnion", () => {
+  const event = z.discriminatedUnion("type", {
+    created: z.object({ id: z.number() }, { unknownKeys: "strict" }),
+    renamed: z.object({
+      type: z.literal("renamed"),
+      payload: z.object({ id: z.number(), name: z.string() }),
+    }),
+  });
+
+  it("parses the input with the branch of its tag", () => {
+    expect(event({ type: "created", id: 1 }).unwrap()).toEqual({
+      type: "created",
+      id: 1,
+    });
+    expect(
+      event({ type: "renamed", payload: { id: 1, name: "a" } }).unwrap(),
+    ).toEqual({ type: "renamed", payload: { id: 1, name: "a" } });
+  });
+
+  it("accepts the tag in strict branches that do not declare it", () => {
+    expect(
+      event({ type: "created", id: 1, extra: true }).unwrapErr(),
+    ).toMatchObject({
+      code: "unrecognized_key",
+      path: ["extra"],
+    });
+  });
+
+  it("returns an error at the key for missing or unknown tags", () => {
+    for (const input of [{ id: 1 }, { type: "deleted" }, { type: 1 }]) {
+      expect(event(input).unwrapErr()).toMatchObject({
+        code: "invalid_discriminator",
+        path: ["type"],
+        params: { key: "type", options: ["created", "renamed"] },
+      });
+    }
+    expect(event({ type: "deleted" }).unwrapErr().message).toBe(
+      "Expected one of 'created' | 'renamed', received 'deleted'",
+    );
+  });
+
+  it("keeps the nested paths of the errors of a branch", () => {
+    expect(
+      event({ type: "renamed", payload: { id: "1", name: "a" } }).unwrapErr()
+        .path,
+    ).toEqual(["payload", "id"]);
+  });
+});
+
+describe("mapOf", () => {
+  const scores = z.mapOf(z.string(), z.number(), { coerce: true });
+
+  it("parses maps, and entries and plain objects when coercing", () => {
+    const expected = new Map([["a", 1]]);
+    expect(scores(new Map([["a", 1]])).unwrap()).toEqual(expected);
+    expect(scores([["a", 1]]).unwrap()).toEqual(expected);
+    expect(scores({ a: 1 }).unwrap()).toEqual(expected);
+    expect(z.mapOf(z.string(), z.number())({ a: 1 }).isErr()).toBe(true);
+  });
+
+  it("reports errors at the index of the entry and its key or value", () => {
+    const err = scores(
+      new Map<unknown, unknown>([
+        ["a", 1],
+        [2, "b"],
+      ]),
+      { abortEarly: false },
+    ).unwrapErr() as z.AggregateParseError;
+    expect(err.errors.map((e) => e.path)).toEqual([
+      ["1", "key"],
+      ["1", "value"],
+    ]);
+  });
+});
+
+describe("set", () => {
+  it("parses sets, and arrays when coercing", () => {
+    expect(
+      z
+        .set(z.number())(new Set([1, 2]))
+        .unwrap(),
+    ).toEqual(new Set([1, 2]));
+    expect(z.set(z.number(), { coerce: true })([1, 1, 2]).unwrap()).toEqual(
+      new Set([1, 2]),
+    );
+    expect(z.set(z.number())([1]).isErr()).toBe(true);
+    expect(
+      z
+        .set(z.number())(new Set([1, "2"]))
+        .unwrapErr().path,
+    ).toEqual(["1"]);
+  });
+});
+
+describe("bigint", () => {
+  it("parses bigints, and integer numbers and strings when coercing", () => {
+    expect(z.bigint()(1n).unwrap()).toBe(1n);
+    expect(z.bigint()(1).isErr()).toBe(true);
+    const coerced = z.bigint({ coerce: true });
+    expect(coerced(12).unwrap()).toBe(12n);
+    expect(coerced(" -7 ").unwrap()).toBe(-7n);
+    expect(coerced(1.5).isErr()).toBe(true);
+    expect(coerced("1e3").isErr()).toBe(true);
+  });
+});
+
+describe("instanceOf", () => {
+  it("accepts instances of the class and its subclasses", () => {
+    class Base {}
+    class Derived extends Base {}
+    const base = z.instanceOf(Base);
+    const derived = new Derived();
+    expect(base(derived).unwrap()).toBe(derived);
+    expect(base({}).unwrapErr().expected).toBe("Base");
+  });
+});
+
+describe("typedArray", () => {
+  it("accepts instances of the class", () => {
+    const bytes = new Uint8Array([1, 2]);
+    expect(z.typedArray(Uint8Array)(bytes).unwrap()).toBe(bytes);
+    expect(z.typedArray(Uint8Array)([1, 2]).isErr()).toBe(true);
+    expect(z.typedArray(Uint8Array)(new Int8Array(1)).isErr()).toBe(true);
+  });
+
+  it("copies arrays of items into a new typed array when coercing", () => {
+    expect(
+      z.typedArray(Int16Array, { coerce: true })([-1, 2]).unwrap(),
+    ).toEqual(new Int16Array([-1, 2]));
+    expect(
+      z.typedArray(BigUint64Array, { coerce: true })([1n]).unwrap(),
+    ).toEqual(new BigUint64Array([1n]));
+    expect(
+      z.typedArray(Float64Array, { coerce: true })([0.5]).unwrap(),
+    ).toEqual(new Float64Array([0.5]));
+  });
+
+  it("rejects items that the class would change, at their index", () => {
+    const bytes = z.typedArray(Uint8Array, { coerce: true });
+    const err = bytes([1, 2, 300, 1.5, -1, "3"], {
+      abortEarly: false,
+    }).unwrapErr() as z.AggregateParseError;
+    expect(err.errors.map((e) => [e.path, e.code])).toEqual([
+      [["2"], "constraint"],
+      [["3"], "constraint"],
+      [["4"], "constraint"],
+      [["5"], "invalid_type"],
+    ]);
+    expect(bytes([300]).unwrapErr().message).toBe(
+      "Number must be less than or equal to 255",
+    );
+    expect(z.typedArray(Int8Array, { coerce: true })([-128, 127]).isOk()).toBe(
+      true,
+    );
+    expect(z.typedArray(Int8Array, { coerce: true })([128]).isErr()).toBe(true);
+    expect(
+      z
+        .typedArray(BigInt64Array, { coerce: true })([2n ** 63n])
+        .isErr(),
+    ).toBe(true);
+    expect(z.typedArray(Float32Array, { coerce: true })([1e39]).isErr()).toBe(
+      true,
+    );
+  });
+});
+
+describe("abortEarly", () => {
+  const order = z.object({
+    id: z.number(),
+    items: z.array(z.object({ sku: z.string(), qty: z.number() })),
+    point: z.tuple([z.number(), z.number()]),
+  });
+  const input = {
+    id: "1",
+    items: [
+      { sku: "a", qty: "2" },
+      { sku: 3, qty: 1 },
+    ],
+    point: [1, "2"],
+  };
+
+  it("stops at the first error by default", () => {
+    const err = order(input).unwrapErr();
+    expect(err).not.toBeInstanceOf(z.AggregateParseError);
+    expect(err.path).toEqual(["id"]);
+    expect(order(input, { abortEarly: true }).unwrapErr().path).toEqual(["id"]);
+  });
+
+  it("collects every error across objects, arrays and tuples", () => {
+    const err = order(input, { abortEarly: false }).unwrapErr();
+    expect(err).toBeInstanceOf(z.AggregateParseError);
+    expect(err.code).toBe("aggregate");
+    expect(err.message).toBe("Found 4 errors");
+    expect(err.params).toEqual({ count: 4 });
+    expect((err as z.AggregateParseError).errors.map((e) => e.path)).toEqual([
+      ["id"],
+      ["items", "0", "qty"],
+      ["items", "1", "sku"],
+      ["point", "1"],
+    ]);
+  });
+
+  it("collects every failing constraint of a value", () => {
+    const err = z
+      .string({ minLength: 5, pattern: /^\d+$/ })("ab", {
+        abortEarly: false,
+      })
+      .unwrapErr() as z.AggregateParseError;
+    expect(err.errors.map((e) => e.expected)).toEqual(["minLength", "pattern"]);
+  });
+});
+
+describe("tuple", () => {
+  const point = z.tuple([z.number(), z.number(), z.maybe(z.number())]);
+  const command = z.tuple([z.string()], { rest: z.number() });
+
+  it("accepts inputs without the trailing optional elements", () => {
+    expect(point([1, 2, 3]).unwrap()).toEqual([1, 2, 3]);
+    expect(point([1, 2]).unwrap()).toEqual([1, 2, undefined]);
+    expect(point([1]).unwrapErr().path).toEqual(["1"]);
+    expectTypeOf<z.Infer<typeof point>>().toEqualTypeOf<
+      [number, number, (number | null | undefined)?]
+    >();
+  });
+
+  it("rejects surplus elements without a rest parser", () => {
+    const err = point([1, 2, 3, 4]).unwrapErr() as z.ConstraintError;
+    expect(err.constraint).toBe("maxItems");
+    expect(err.params).toEqual({ value: 3 });
+  });
+
+  it("parses the elements after the tuple with the rest parser", () => {
+    expect(command(["move", 1, 2]).unwrap()).toEqual(["move", 1, 2]);
+    expect(command(["stop"]).unwrap()).toEqual(["stop"]);
+    expect(command(["move", 1, "2"]).unwrapErr().path).toEqual(["2"]);
+    expectTypeOf<z.Infer<typeof command>>().toEqualTypeOf<
+      [string, ...number[]]
+    >();
+  });
+
+  it("keeps the element types of InferTuple", () => {
+    expectTypeOf<
+      z.InferTuple<[z.Parser<string>, z.Parser<number | undefined>]>
+    >().toEqualTypeOf<[string, number | undefined]>();
+    expectTypeOf<
+      z.InferTupleWithRest<
+        [z.Parser<string>, z.Parser<number | undefined>],
+        z.Parser<boolean>
+      >
+    >().toEqualTypeOf<[string, (number | undefined)?, ...boolean[]]>();
+  });
+});
+
+describe("brand", () => {
+  const UserId = z.brand(z.string({ minLength: 1 }), "UserId");
+  type UserId = z.Infer<typeof UserId>;
+
+  it("returns the output of the branded parser as it is", () => {
+    expect(UserId("u1").unwrap()).toBe("u1");
+    expect(UserId("").unwrapErr()).toBeInstanceOf(z.ConstraintError);
+    expect(UserId(1).unwrapErr().code).toBe("invalid_type");
+  });
+
+  it("types its output as the branded type", () => {
+    const id: UserId = UserId("u1").unwrap();
+    const name: string = id;
+    // @ts-expect-error a plain string is not a UserId
+    const plain: UserId = "u1";
+    expect([name, plain]).toEqual(["u1", "u1"]);
+    expectTypeOf(z.unsafeBrand<UserId>("u2")).toEqualTypeOf<UserId>();
+    expectTypeOf<z.Unbrand<UserId>>().toEqualTypeOf<string>();
+  });
+});
+
+describe("pipe", () => {
+  const tags = z.pipe(
+    z.string(),
+    (s: string) => Ok(s.split(",").map((tag) => tag.trim())),
+    z.array(z.string({ minLength: 1 })),
+  );
+
+  it("runs each parser on the output of the one before it", () => {
+    expect(tags("a, b").unwrap()).toEqual(["a", "b"]);
+  });
+
+  it("stops at the first parser that fails", () => {
+    let calls = 0;
+    const counted = z.pipe(z.number(), (n: number) => {
+      calls++;
+      return Ok(n);
+    });
+    expect(counted("1").unwrapErr().expected).toBe("number");
+    expect(calls).toBe(0);
+  });
+
+  it("returns the error of a later parser with a path relative to its input", () => {
+    const err = tags("a,,b").unwrapErr();
+    expect(err.path).toEqual(["1"]);
+    expect(err.code).toBe("constraint");
+    expect(z.object({ tags })({ tags: "a,,b" }).unwrapErr().path).toEqual([
+      "tags",
+      "1",
+    ]);
+  });
+});
+
+describe("preprocess", () => {
+  const ids = z.preprocess(
+    (input) => (typeof input === "string" ? input.split(",") : input),
+    z.array(z.number({ coerce: true })),
+  );
+
+  it("parses the transformed input", () => {
+    expect(ids("1,2").unwrap()).toEqual([1, 2]);
+    expect(ids([3]).unwrap()).toEqual([3]);
+  });
+
+  it("returns the errors of the parser for the transformed input", () => {
+    const err = ids("1,x").unwrapErr();
+    expect(err.path).toEqual(["1"]);
+    expect(err.code).toBe("invalid_type");
+    expect(z.object({ ids })({ ids: "1,x" }).unwrapErr().path).toEqual([
+      "ids",
+      "1",
+    ]);
+  });
+
+  it("fails when the preprocessed input is invalid", () => {
+    const trimmed = z.preprocess(
+      (input) => (typeof input === "string" ? input.trim() : input),
+      z.string({ minLength: 1 }),
+    );
+    expect(trimmed("  ").unwrapErr()).toBeInstanceOf(z.ConstraintError);
+    expect(trimmed(1).unwrapErr().code).toBe("invalid_type");
+  });
+});
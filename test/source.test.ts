@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  JsonSyntaxError,
+  parseJsonSource,
+  parseJsonWithLocations,
+  z,
+} from "../src";
+
+const text = `{
+  "name": "app",
+  "ports": [80, "443"],
+  "db": { "host": "localhost" }
+}`;
+
+describe("parseJsonSource", () => {
+  it("parses like JSON.parse", () => {
+    for (const json of [
+      text,
+      "[]",
+      "{}",
+      ' "a\\u0041" ',
+      "-1.5e3",
+      "[[], {}]",
+    ]) {
+      expect(parseJsonSource(json).unwrap().value).toEqual(JSON.parse(json));
+    }
+    const value = parseJsonSource('{"__proto__": 1}').unwrap().value;
+    expect(Object.keys(value as object)).toEqual(["__proto__"]);
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+  });
+
+  it("locates values and keys", () => {
+    const source = parseJsonSource(text).unwrap();
+    expect(source.locate(["ports", "1"])).toEqual({
+      start: { offset: 35, line: 3, column: 17 },
+      end: { offset: 40, line: 3, column: 22 },
+    });
+    expect(source.locate(["db", "host"], "key")?.start).toEqual({
+      offset: 53,
+      line: 4,
+      column: 11,
+    });
+    expect(source.locate([])?.end.line).toBe(5);
+    expect(source.locate(["missing"])).toBeUndefined();
+    expect(source.locate(["ports"], "key")?.start.column).toBe(3);
+  });
+
+  it("returns a JsonSyntaxError with the line and column of the error", () => {
+    const err = parseJsonSource('{\n  "a": 1,\n}').unwrapErr();
+    expect(err).toBeInstanceOf(JsonSyntaxError);
+    expect(err.message).toBe("Unexpected token '}' at line 3, column 1");
+    for (const json of ["", "[1,]", '{"a" 1}', '"a', "[1] 2", "tru"]) {
+      expect(parseJsonSource(json).isErr()).toBe(true);
+    }
+  });
+
+  it("parses values nested to any depth", () => {
+    const depth = 20_000;
+    const json = "[".repeat(depth) + "]".repeat(depth);
+    const source = parseJsonSource(json).unwrap();
+    let value = source.value;
+    for (let i = 1; i < depth; i++) [value] = value as unknown[];
+    expect(value).toEqual([]);
+    expect(source.locate(Array(depth - 1).fill("0"))?.start.offset).toBe(
+      depth - 1,
+    );
+    expect(parseJsonSource("[".repeat(depth)).isErr()).toBe(true);
+  });
+});
+
+describe("parseJsonWithLocations", () => {
+  it("locates the errors of the parser", () => {
+    const config = z.object(
+      { name: z.string(), ports: z.array(z.number()) },
+      { unknownKeys: "strict" },
+    );
+    const err = parseJsonWithLocations(text, config, {
+      abortEarly: false,
+    }).unwrapErr() as z.AggregateParseError;
+    expect(
+      err.errors.map((e) => [
+        e.path,
+        e.location?.start.line,
+        e.location?.start.column,
+      ]),
+    ).toEqual([
+      [["ports", "1"], 3, 17],
+      [["db"], 4, 3],
+    ]);
+  });
+
+  it("returns syntax errors", () => {
+    expect(parseJsonWithLocations("{", z.unknown).unwrapErr()).toBeInstanceOf(
+      JsonSyntaxError,
+    );
+  });
+});
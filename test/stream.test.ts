@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+
+import type {
+  JsonRecord,
+  JsonStreamOptions,
+  ReadableStreamLike,
+  StreamChunk,
+} from "../src";
+import { parseJsonStream, z } from "../src";
+
+const event = z.object({ id: z.number() });
+
+async function* chunks(...items: StreamChunk[]) {
+  yield* items;
+}
+
+const collect = async <T>(
+  iterable: AsyncIterable<JsonRecord<T>>,
+): Promise<[number, T | string][]> => {
+  const records: [number, T | string][] = [];
+  for await (const { line, result } of iterable) {
+    records.push([
+      line,
+      result.match<T | string>(
+        (v) => v,
+        (err) => err.constructor.name,
+      ),
+    ]);
+  }
+  return records;
+};
+
+const parse = (source: AsyncIterable<StreamChunk>, opts?: JsonStreamOptions) =>
+  collect(parseJsonStream(source, event, opts));
+
+describe("parseJsonStream", () => {
+  it("parses records split across chunks, with their line numbers", async () => {
+    expect(
+      await parse(chunks('{"id":1}\n\n{"i', 'd":2}\r\n', '{"id":3}')),
+    ).toEqual([
+      [1, { id: 1 }],
+      [3, { id: 2 }],
+      [4, { id: 3 }],
+    ]);
+  });
+
+  it("decodes UTF-8 bytes split inside a character", async () => {
+    const bytes = new TextEncoder().encode('{"id":1,"name":"é"}\n');
+    const named = z.object({ id: z.number(), name: z.string() });
+    expect(
+      await collect(
+        parseJsonStream(chunks(bytes.slice(0, 17), bytes.slice(17)), named),
+      ),
+    ).toEqual([[1, { id: 1, name: "é" }]]);
+  });
+
+  it("reads web streams, and releases their reader", async () => {
+    const queue = ['{"id":1}\n{"id":', "2}"];
+    let released = false;
+    const stream: ReadableStreamLike<string> = {
+      getReader: () => ({
+        read: async () =>
+          queue.length > 0
+            ? { done: false, value: queue.shift() }
+            : { done: true },
+        releaseLock: () => {
+          released = true;
+        },
+      }),
+    };
+    expect(await collect(parseJsonStream(stream, event))).toEqual([
+      [1, { id: 1 }],
+      [2, { id: 2 }],
+    ]);
+    expect(released).toBe(true);
+  });
+
+  it("reads JSON text sequences", async () => {
+    expect(
+      await parse(chunks('\x1e{"id":1}\n\x1e{\n"id":2}\n'), {
+        format: "json-seq",
+      }),
+    ).toEqual([
+      [1, { id: 1 }],
+      [2, { id: 2 }],
+    ]);
+  });
+
+  it("yields, skips or stops at invalid records", async () => {
+    const source = () => chunks('{"id":1}\nnot json\n{"id":"x"}\n{"id":4}\n');
+    expect(await parse(source())).toEqual([
+      [1, { id: 1 }],
+      [2, "SyntaxError"],
+      [3, "ParseError"],
+      [4, { id: 4 }],
+    ]);
+    expect(await parse(source(), { onError: "skip" })).toEqual([
+      [1, { id: 1 }],
+      [4, { id: 4 }],
+    ]);
+    expect(await parse(source(), { onError: "stop" })).toEqual([
+      [1, { id: 1 }],
+      [2, "SyntaxError"],
+    ]);
+  });
+
+  it("gives an error for records longer than maxLength", async () => {
+    expect(
+      await parse(chunks('{"id":1}\n{"id":1000', '0000}\n{"id":3}'), {
+        maxLength: 10,
+      }),
+    ).toEqual([
+      [1, { id: 1 }],
+      [2, "SyntaxError"],
+      [3, { id: 3 }],
+    ]);
+  });
+
+  it("stops reading the stream when the iteration stops", async () => {
+    let read = 0;
+    async function* counted() {
+      for (let i = 1; i <= 5; i++) {
+        read++;
+        yield `{"id":${i}}\n`;
+      }
+    }
+    for await (const { line } of parseJsonStream(counted(), event)) {
+      expect(line).toBe(1);
+      break;
+    }
+    expect(read).toBe(1);
+  });
+});
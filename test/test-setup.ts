@@ -0,0 +1,6 @@
+import { afterEach } from "vitest";
+
+import { setErrorMap } from "../src/errors";
+
+// The global error map is shared by every parser, so a test that sets it must not leak it into the next one.
+afterEach(() => setErrorMap(undefined));